@@ -0,0 +1,158 @@
+// Service worker: keeps the app usable with bad or no reception.
+// - Pages are fetched from the network first (with a short timeout) and fall back to the last cached copy, or to a
+//   short offline page for routes that were never cached.
+// - Build assets (/_next/static, content-hashed) are served from the cache once fetched.
+// - Incident data (/api/incidents) and the GeoJSON files are served from the cache and refreshed in the background.
+//   When a refreshed /api/incidents response has a new ETag (a newer incidents.json was deployed), every cached
+//   /api/incidents response of that city is dropped, so cached pages of the old data are never combined with pages of
+//   the new data, and open pages are told with an "incidents-updated" message so they can offer a reload.
+//   Requests made with cache: 'reload' (the page found mixed data versions) go to the network.
+// Registered by ServiceWorkerStatus (src/app/ServiceWorkerStatus.tsx) in production builds only.
+
+const cacheVersion = 'v2';
+const pageCacheName = `pages-${cacheVersion}`;
+const assetCacheName = `assets-${cacheVersion}`;
+const dataCacheName = `data-${cacheVersion}`;
+
+// Pages cached on install so they open offline even if they haven't been visited yet
+const shellPages = ['/', '/stats'];
+// How long a page request may take before the cached copy is used instead (ms)
+const pageNetworkTimeout = 4000;
+
+const isAssetRequest = (url) => url.pathname.startsWith('/_next/static/');
+const isIncidentsRequest = (url) => url.pathname === '/api/incidents';
+const isDataRequest = (url) => isIncidentsRequest(url) || /^\/data\/.+\.geojson$/.test(url.pathname);
+
+// Cache a page and the build assets it references
+const cachePageWithAssets = async (path) => {
+    const response = await fetch(path, { cache: 'no-cache' });
+    if (!response.ok) return;
+    const html = await response.clone().text();
+    await (await caches.open(pageCacheName)).put(path, response);
+    const assets = [...new Set(html.match(/\/_next\/static\/[^"'\s\\)]+/g) ?? [])];
+    const assetCache = await caches.open(assetCacheName);
+    await Promise.all(assets.map(async (asset) => {
+        if (!(await assetCache.match(asset))) await assetCache.add(asset).catch(() => undefined);
+    }));
+};
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(Promise.all(shellPages.map(path => cachePageWithAssets(path).catch(() => undefined))));
+});
+
+self.addEventListener('activate', (event) => {
+    const currentCaches = [pageCacheName, assetCacheName, dataCacheName];
+    event.waitUntil((async () => {
+        const names = await caches.keys();
+        await Promise.all(names.filter(name => !currentCaches.includes(name)).map(name => caches.delete(name)));
+        await self.clients.claim();
+    })());
+});
+
+const notifyClients = async (message) => {
+    const clients = await self.clients.matchAll({ type: 'window' });
+    clients.forEach(client => client.postMessage(message));
+};
+
+// Served for navigations to pages that aren't cached while offline (e.g. an incident page that was never opened)
+const offlineResponse = () => new Response(
+    '<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">' +
+    '<title>Offline</title></head><body style="font-family: sans-serif; padding: 2rem; color: #1F2937">' +
+    '<h1>You&#39;re offline</h1><p>This page hasn&#39;t been saved on this device yet.</p>' +
+    '<p><a href="/">Open the map</a> with the incident data saved on this device, or try again once you&#39;re back online.</p>' +
+    '</body></html>',
+    { status: 503, headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+);
+
+// Network first with a timeout, falling back to the cached page (ignoring the query string, which only holds view state)
+const handlePageRequest = async (request) => {
+    const cache = await caches.open(pageCacheName);
+    const url = new URL(request.url);
+    const network = fetch(request).then((response) => {
+        if (response.ok) cache.put(url.pathname, response.clone());
+        return response;
+    });
+    network.catch(() => undefined); // Handled below; avoids an unhandled rejection when the timeout wins
+    const timeout = new Promise(resolve => setTimeout(() => resolve(null), pageNetworkTimeout));
+    try {
+        const response = await Promise.race([network, timeout]);
+        if (response) return response;
+    } catch {
+        // Offline: use the cache below
+    }
+    const cached = await cache.match(url.pathname);
+    return cached ?? network.catch(offlineResponse);
+};
+
+const handleAssetRequest = async (request) => {
+    const cache = await caches.open(assetCacheName);
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+};
+
+// Drop every cached /api/incidents response (all pages and filters) of a city
+const invalidateCityIncidents = async (cache, city) => {
+    const requests = await cache.keys();
+    await Promise.all(requests
+        .filter(cachedRequest => {
+            const url = new URL(cachedRequest.url);
+            return isIncidentsRequest(url) && url.searchParams.get('city') === city;
+        })
+        .map(cachedRequest => cache.delete(cachedRequest)));
+};
+
+// Stale-while-revalidate; incident data whose ETag changed since it was cached replaces all of the city's cached pages
+const handleDataRequest = async (request, event) => {
+    const cache = await caches.open(dataCacheName);
+    const url = new URL(request.url);
+    const cached = request.cache === 'reload' ? undefined : await cache.match(request);
+    const refresh = fetch(request, { cache: 'no-cache' }).then(async (response) => {
+        if (!response.ok) return response;
+        const previousEtag = cached?.headers.get('ETag');
+        const isUpdated = isIncidentsRequest(url) && previousEtag && previousEtag !== response.headers.get('ETag');
+        if (isUpdated) await invalidateCityIncidents(cache, url.searchParams.get('city'));
+        await cache.put(request, response.clone());
+        if (isUpdated) await notifyClients({ type: 'incidents-updated', city: url.searchParams.get('city') });
+        return response;
+    });
+    if (cached) {
+        event.waitUntil(refresh.catch(() => undefined));
+        return cached;
+    }
+    return refresh;
+};
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+    // Google Maps and other third-party requests go straight to the network
+    if (url.origin !== self.location.origin) return;
+
+    if (request.mode === 'navigate') {
+        event.respondWith(handlePageRequest(request));
+    } else if (isAssetRequest(url)) {
+        event.respondWith(handleAssetRequest(request));
+    } else if (isDataRequest(url)) {
+        event.respondWith(handleDataRequest(request, event));
+    }
+});
+
+self.addEventListener('message', (event) => {
+    // Cache what a page loaded before this worker controlled it (its assets and data), so the first visit works offline
+    if (event.data?.type === 'cache-urls') {
+        event.waitUntil(Promise.all(event.data.urls.map(async (href) => {
+            const url = new URL(href);
+            if (url.origin !== self.location.origin) return;
+            const cacheName = isAssetRequest(url) ? assetCacheName : isDataRequest(url) ? dataCacheName : null;
+            if (!cacheName) return;
+            const cache = await caches.open(cacheName);
+            if (!(await cache.match(url.href))) await cache.add(url.href).catch(() => undefined);
+        })));
+    }
+    // The page accepted the update prompt for a new version of this worker
+    if (event.data?.type === 'skip-waiting') self.skipWaiting();
+});
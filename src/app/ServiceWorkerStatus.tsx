@@ -0,0 +1,102 @@
+"use client"; // Registers the service worker and listens for its messages in the browser
+
+import { useEffect, useState } from 'react';
+
+// Registers /sw.js (production builds only, so development always sees fresh code) and shows a bar at the bottom
+// of every page when the device is offline, when newer incident data was deployed, or when a new app version is ready.
+export function ServiceWorkerStatus() {
+    const [isOffline, setIsOffline] = useState(false);
+    const [isDataUpdateAvailable, setIsDataUpdateAvailable] = useState(false);
+    const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+    const [isDismissed, setIsDismissed] = useState(false);
+
+    useEffect(() => {
+        const updateOnlineStatus = () => setIsOffline(!navigator.onLine);
+        updateOnlineStatus();
+        window.addEventListener('online', updateOnlineStatus);
+        window.addEventListener('offline', updateOnlineStatus);
+        return () => {
+            window.removeEventListener('online', updateOnlineStatus);
+            window.removeEventListener('offline', updateOnlineStatus);
+        };
+    }, []);
+
+    useEffect(() => {
+        if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+        const { serviceWorker } = navigator;
+
+        const handleMessage = (event: MessageEvent) => {
+            if (event.data?.type === 'incidents-updated') {
+                setIsDataUpdateAvailable(true);
+                setIsDismissed(false);
+            }
+        };
+        serviceWorker.addEventListener('message', handleMessage);
+
+        // A new worker finished installing while an older one controls the page: offer to switch
+        const trackInstalling = (registration: ServiceWorkerRegistration) => {
+            const worker = registration.installing;
+            worker?.addEventListener('statechange', () => {
+                if (worker.state === 'installed' && serviceWorker.controller) setWaitingWorker(worker);
+            });
+        };
+
+        serviceWorker.register('/sw.js', { updateViaCache: 'none' })
+            .then(async (registration) => {
+                if (registration.waiting && serviceWorker.controller) setWaitingWorker(registration.waiting);
+                registration.addEventListener('updatefound', () => trackInstalling(registration));
+                // Hand over what this page already loaded, so it opens offline after the first visit
+                const ready = await serviceWorker.ready;
+                const urls = performance.getEntriesByType('resource').map(entry => entry.name);
+                ready.active?.postMessage({ type: 'cache-urls', urls });
+            })
+            .catch(error => console.warn("Service worker registration failed:", error));
+
+        return () => serviceWorker.removeEventListener('message', handleMessage);
+    }, []);
+
+    const applyUpdate = () => {
+        if (waitingWorker) {
+            // Reload once the new worker has taken over
+            navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+            waitingWorker.postMessage({ type: 'skip-waiting' });
+        } else {
+            window.location.reload();
+        }
+    };
+
+    const isUpdateAvailable = (isDataUpdateAvailable || waitingWorker !== null) && !isDismissed;
+    if (!isOffline && !isUpdateAvailable) return null;
+
+    return (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-11/12 max-w-lg space-y-2" role="status" aria-live="polite">
+            {isOffline && (
+                <p className="px-4 py-2 rounded-md shadow-lg bg-gray-800 text-white text-sm">
+                    You&apos;re offline. Showing the incident data saved on this device; filters, the table and statistics still work.
+                </p>
+            )}
+            {isUpdateAvailable && (
+                <div className="px-4 py-2 rounded-md shadow-lg bg-indigo-700 text-white text-sm flex items-center">
+                    <span className="flex-grow">
+                        {isDataUpdateAvailable ? 'Newer incident data is available.' : 'A new version of the app is available.'}
+                    </span>
+                    <button
+                        type="button"
+                        onClick={applyUpdate}
+                        className="ml-3 px-3 py-1 rounded bg-white text-indigo-700 font-medium hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-white"
+                    >
+                        Reload
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setIsDismissed(true)}
+                        className="ml-2 px-2 py-1 text-indigo-100 hover:text-white focus:outline-none focus:ring-2 focus:ring-white rounded"
+                        aria-label="Dismiss update notice"
+                    >
+                        ✕
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,413 @@
+"use client"; // Uses React state and effects
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { BoundsLiteral, LatLngLiteral, projectToWorld, unprojectFromWorld } from '@/lib/geo';
+import { getLocationPrecision, incidentKey } from '@/lib/incidents';
+import { getIncidentStyle } from '@/lib/taxonomy';
+import {
+  areaStyle,
+  arrowKeyDirections,
+  countIncidentsForLegend,
+  describeIncident,
+  findNeighborInDirection,
+  groupApproximateLocations,
+  IncidentDetails,
+  MapLegend,
+  MapRendererProps,
+} from './mapShared';
+
+// --- Fallback Map Renderer ---
+// Zoom range of the fallback map (same scale as Google Maps zoom levels)
+const fallbackMinZoom = 11;
+const fallbackMaxZoom = 19;
+
+// Ring/badge color for new incidents in the SVG renderer (Tailwind cyan-600, as used by the Google markers)
+const newIncidentColor = '#0891B2';
+
+// Map drawn as SVG when there is no Google Maps API key, or when Google Maps can't load (offline): the data source's
+// street lines, incident dots, drawn areas and saved places, with drag to pan, wheel/double-click/buttons to zoom and
+// click for details. Search, area drawing and the density/region views need Google Maps and are not available here.
+// `notice` replaces the default note about the missing API key.
+export function SvgMapRenderer({
+    dataSource,
+    incidentsToDisplay: incidents,
+    categoryColorMap,
+    initialViewState,
+    onViewStateChange,
+    selectedIncidentKey,
+    onSelectedIncidentKeyChange,
+    focusRequest,
+    legendCategories,
+    selectedCategories,
+    onSelectedCategoriesChange,
+    savedPlaces,
+    placeFocusRequest,
+    boundsFocusRequest,
+    areas,
+    newIncidentKeys,
+    locationFilter,
+    streets,
+    onViewportBoundsChange,
+    notice,
+}: MapRendererProps & { notice?: string }) {
+    const { taxonomy } = dataSource;
+    const clampZoom = (value: number) => Math.min(Math.max(value, fallbackMinZoom), fallbackMaxZoom);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+    const [size, setSize] = useState({ width: 0, height: 0 });
+    const [center, setCenter] = useState<LatLngLiteral>(initialViewState.center);
+    const [zoom, setZoom] = useState(clampZoom(initialViewState.zoom));
+    // Pointer drag in progress; `moved` turns a click into a pan once the pointer travels a few pixels
+    const dragRef = useRef<{ pointerId: number, x: number, y: number, moved: boolean } | null>(null);
+    const suppressClickRef = useRef(false);
+    // Incident marker elements by key, for arrow-key navigation and returning focus after the details panel closes
+    const markerElementsRef = useRef<{ [key: string]: SVGGElement }>({});
+    const detailsHeadingRef = useRef<HTMLHeadingElement>(null);
+
+    useEffect(() => {
+        const element = containerRef.current;
+        if (!element) return;
+        const observer = new ResizeObserver(([entry]) => setSize({ width: entry.contentRect.width, height: entry.contentRect.height }));
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, []);
+
+    // Report the viewport like the Google renderer does; the rest of the linked view is kept as it was
+    useEffect(() => {
+        onViewStateChange?.({ ...initialViewState, center, zoom });
+    }, [onViewStateChange, initialViewState, center, zoom]);
+
+    const centerWorld = projectToWorld(center, zoom);
+    const toScreen = (point: LatLngLiteral): { x: number, y: number } => {
+        const world = projectToWorld(point, zoom);
+        return { x: world.x - centerWorld.x + size.width / 2, y: world.y - centerWorld.y + size.height / 2 };
+    };
+    const toLatLng = (x: number, y: number): LatLngLiteral =>
+        unprojectFromWorld({ x: centerWorld.x + x - size.width / 2, y: centerWorld.y + y - size.height / 2 }, zoom);
+    const formatPoints = (path: LatLngLiteral[]) => path.map(point => { const { x, y } = toScreen(point); return `${x.toFixed(1)},${y.toFixed(1)}`; }).join(' ');
+
+    // Zoom by `delta` levels, keeping the point under (x, y) in place (the center by default)
+    const zoomAt = (delta: number, x = size.width / 2, y = size.height / 2) => {
+        const newZoom = clampZoom(zoom + delta);
+        if (newZoom === zoom) return;
+        const anchor = projectToWorld(toLatLng(x, y), newZoom);
+        setCenter(unprojectFromWorld({ x: anchor.x - (x - size.width / 2), y: anchor.y - (y - size.height / 2) }, newZoom));
+        setZoom(newZoom);
+    };
+
+    // Wheel zoom needs a non-passive listener so the page doesn't scroll underneath the map
+    useEffect(() => {
+        const element = svgRef.current;
+        if (!element) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const rect = element.getBoundingClientRect();
+            zoomAt(Math.max(-1, Math.min(1, -e.deltaY / 200)), e.clientX - rect.left, e.clientY - rect.top);
+        };
+        element.addEventListener('wheel', handleWheel, { passive: false });
+        return () => element.removeEventListener('wheel', handleWheel);
+    });
+
+    // Center on an incident picked in the table, once per request (not again when the incident list changes)
+    const handledFocusRequestRef = useRef<typeof focusRequest>(null);
+    useEffect(() => {
+        if (!focusRequest || focusRequest === handledFocusRequestRef.current) return;
+        handledFocusRequestRef.current = focusRequest;
+        const incident = incidents.find(i => incidentKey(i) === focusRequest.incidentKey);
+        if (!incident) return;
+        setCenter({ lat: incident.latitude, lng: incident.longitude });
+        setZoom(current => Math.max(current, 16));
+    }, [focusRequest, incidents]);
+
+    // Center on a saved place picked in the comparison tab
+    useEffect(() => {
+        if (!placeFocusRequest) return;
+        setCenter(placeFocusRequest.place.position);
+        setZoom(current => Math.max(current, 15));
+    }, [placeFocusRequest]);
+
+    // Fit an area picked outside the map (e.g. a hotspot) into the viewport, once per request (not again on resizes)
+    const handledBoundsFocusRequestRef = useRef<typeof boundsFocusRequest>(null);
+    useEffect(() => {
+        if (!boundsFocusRequest || boundsFocusRequest === handledBoundsFocusRequestRef.current || size.width === 0) return;
+        handledBoundsFocusRequestRef.current = boundsFocusRequest;
+        const { bounds } = boundsFocusRequest;
+        const northWest = projectToWorld({ lat: bounds.north, lng: bounds.west }, 0);
+        const southEast = projectToWorld({ lat: bounds.south, lng: bounds.east }, 0);
+        const scale = Math.min((size.width - 80) / Math.max(southEast.x - northWest.x, 1e-9), (size.height - 80) / Math.max(southEast.y - northWest.y, 1e-9));
+        setCenter({ lat: (bounds.north + bounds.south) / 2, lng: (bounds.east + bounds.west) / 2 });
+        setZoom(clampZoom(Math.floor(Math.log2(scale))));
+    }, [boundsFocusRequest, size]);
+
+    const viewportBounds = useMemo((): BoundsLiteral | null => {
+        if (size.width === 0) return null;
+        const world = projectToWorld(center, zoom);
+        const northWest = unprojectFromWorld({ x: world.x - size.width / 2, y: world.y - size.height / 2 }, zoom);
+        const southEast = unprojectFromWorld({ x: world.x + size.width / 2, y: world.y + size.height / 2 }, zoom);
+        return { north: northWest.lat, south: southEast.lat, west: northWest.lng, east: southEast.lng };
+    }, [center, zoom, size]);
+
+    useEffect(() => {
+        if (viewportBounds) onViewportBoundsChange?.(viewportBounds);
+    }, [onViewportBoundsChange, viewportBounds]);
+
+    // Counts of the displayed incidents inside the viewport, for the legend
+    const countsInView = useMemo(
+        () => viewportBounds ? countIncidentsForLegend(incidents, viewportBounds, taxonomy) : {},
+        [incidents, viewportBounds, taxonomy]
+    );
+
+    // Move focus to the details panel when an incident is opened
+    useEffect(() => {
+        if (selectedIncidentKey) detailsHeadingRef.current?.focus();
+    }, [selectedIncidentKey]);
+
+    // Close the details panel and put focus back on the incident's marker
+    const closeIncidentDetails = () => {
+        if (selectedIncidentKey) markerElementsRef.current[selectedIncidentKey]?.focus();
+        onSelectedIncidentKeyChange(null);
+    };
+
+    const approximateLocations = useMemo(
+        () => locationFilter === 'areas' ? groupApproximateLocations(incidents, streets, taxonomy) : [],
+        [locationFilter, incidents, streets, taxonomy]
+    );
+
+    const selectedIncident = selectedIncidentKey ? incidents.find(incident => incidentKey(incident) === selectedIncidentKey) ?? null : null;
+    const markerRadius = zoom >= 16 ? 6 : zoom >= 14 ? 5 : 4;
+    const metersPerPixel = (156543.03392 * Math.cos((center.lat * Math.PI) / 180)) / 2 ** zoom;
+    // Incidents on screen, with the selected one drawn last so it sits on top
+    const visibleMarkers = incidents
+        .map(incident => ({ incident, key: incidentKey(incident), ...toScreen({ lat: incident.latitude, lng: incident.longitude }) }))
+        .filter(({ x, y }) => x >= -markerRadius && y >= -markerRadius && x <= size.width + markerRadius && y <= size.height + markerRadius)
+        .sort((a, b) => Number(a.key === selectedIncidentKey) - Number(b.key === selectedIncidentKey));
+    const serviceArea = { northWest: toScreen({ lat: dataSource.bounds.north, lng: dataSource.bounds.west }), southEast: toScreen({ lat: dataSource.bounds.south, lng: dataSource.bounds.east }) };
+    const zoomButtonClass = "w-8 h-8 flex items-center justify-center text-lg text-gray-700 hover:bg-gray-100 focus:outline-none";
+
+    return (
+        <div
+            ref={containerRef}
+            className="absolute inset-0 bg-gray-200 overflow-hidden"
+            onKeyDown={(e) => {
+                if (e.key === 'Escape' && selectedIncidentKey) {
+                    e.preventDefault();
+                    closeIncidentDetails();
+                }
+            }}
+        >
+            <svg
+                ref={svgRef}
+                width={size.width}
+                height={size.height}
+                className="block select-none touch-none cursor-grab active:cursor-grabbing"
+                role="group"
+                aria-label={`Simplified map of ${dataSource.name} with ${incidents.length} incidents. Tab to an incident, press Enter for details and use the arrow keys to move to nearby incidents.`}
+                onPointerDown={(e) => {
+                    if (e.button !== 0) return;
+                    dragRef.current = { pointerId: e.pointerId, x: e.clientX, y: e.clientY, moved: false };
+                }}
+                onPointerMove={(e) => {
+                    const drag = dragRef.current;
+                    if (!drag || drag.pointerId !== e.pointerId) return;
+                    const dx = e.clientX - drag.x;
+                    const dy = e.clientY - drag.y;
+                    if (!drag.moved) {
+                        if (Math.hypot(dx, dy) < 4) return;
+                        drag.moved = true;
+                        e.currentTarget.setPointerCapture(e.pointerId);
+                    }
+                    drag.x = e.clientX;
+                    drag.y = e.clientY;
+                    setCenter(current => {
+                        const world = projectToWorld(current, zoom);
+                        return unprojectFromWorld({ x: world.x - dx, y: world.y - dy }, zoom);
+                    });
+                }}
+                onPointerUp={() => {
+                    suppressClickRef.current = !!dragRef.current?.moved;
+                    dragRef.current = null;
+                }}
+                onPointerCancel={() => { dragRef.current = null; }}
+                onClick={() => {
+                    if (!suppressClickRef.current) onSelectedIncidentKeyChange(null);
+                }}
+                onDoubleClick={(e) => {
+                    const rect = e.currentTarget.getBoundingClientRect();
+                    zoomAt(1, e.clientX - rect.left, e.clientY - rect.top);
+                }}
+            >
+                {/* Service area */}
+                <rect
+                    x={serviceArea.northWest.x}
+                    y={serviceArea.northWest.y}
+                    width={serviceArea.southEast.x - serviceArea.northWest.x}
+                    height={serviceArea.southEast.y - serviceArea.northWest.y}
+                    fill="#F9FAFB"
+                    stroke="#9CA3AF"
+                    strokeDasharray="6 4"
+                />
+
+                {/* Streets */}
+                {streets.map((street, i) => (
+                    <polyline key={i} points={formatPoints(street.path)} fill="none" stroke="#FFFFFF" strokeWidth={zoom >= 15 ? 7 : 5} strokeLinecap="round" strokeLinejoin="round" />
+                ))}
+                {streets.map((street, i) => (
+                    <polyline key={i} points={formatPoints(street.path)} fill="none" stroke="#D1D5DB" strokeWidth={zoom >= 15 ? 4 : 2.5} strokeLinecap="round" strokeLinejoin="round" />
+                ))}
+                {zoom >= 14 && streets.map((street, i) => {
+                    const { x, y } = toScreen(street.path[Math.floor(street.path.length / 2)]);
+                    return (
+                        <text key={i} x={x} y={y - 6} fontSize="11" fill="#4B5563" textAnchor="middle" stroke="#F9FAFB" strokeWidth="3" paintOrder="stroke">
+                            {street.name}
+                        </text>
+                    );
+                })}
+
+                {/* Drawn areas (read-only here) */}
+                {areas.map((area, i) => (
+                    <polygon
+                        key={i}
+                        points={formatPoints(area.kind === 'rectangle'
+                            ? [{ lat: area.bounds.north, lng: area.bounds.west }, { lat: area.bounds.north, lng: area.bounds.east }, { lat: area.bounds.south, lng: area.bounds.east }, { lat: area.bounds.south, lng: area.bounds.west }]
+                            : area.path)}
+                        fill={areaStyle.fillColor}
+                        fillOpacity={areaStyle.fillOpacity}
+                        stroke={areaStyle.strokeColor}
+                        strokeOpacity={areaStyle.strokeOpacity}
+                        strokeWidth={areaStyle.strokeWeight}
+                    />
+                ))}
+
+                {/* Approximate areas of route/intersection incidents */}
+                {approximateLocations.map(location => location.streets.length > 0
+                    ? location.streets.map((street, i) => (
+                        <polyline key={`${location.key}:${i}`} points={formatPoints(street.path)} fill="none" stroke={location.color} strokeOpacity={0.4} strokeWidth={8} strokeLinecap="round" strokeLinejoin="round" pointerEvents="none" />
+                    ))
+                    : (() => {
+                        const { x, y } = toScreen(location.position);
+                        return (
+                            <circle key={location.key} cx={x} cy={y} r={location.radius / metersPerPixel} fill={location.color} fillOpacity={0.12} stroke={location.color} strokeOpacity={0.7} strokeWidth={1.5} pointerEvents="none" />
+                        );
+                    })()
+                )}
+
+                {/* Incidents; approximate locations are hollow (a ring for intersections, a diamond for routes) */}
+                {visibleMarkers.map(({ incident, key, x, y }) => {
+                    const style = getIncidentStyle(incident, taxonomy);
+                    const isSelected = key === selectedIncidentKey;
+                    const isNew = newIncidentKeys.has(key);
+                    const radius = isSelected ? markerRadius + 3 : markerRadius;
+                    const precision = getLocationPrecision(incident);
+                    const markerProps = {
+                        fill: precision === 'address' ? style.color : '#FFFFFF',
+                        stroke: isSelected ? '#111827' : precision === 'address' ? '#FFFFFF' : style.color,
+                        strokeWidth: isSelected ? 2.5 : precision === 'address' ? 1.5 : 2.5,
+                        className: 'cursor-pointer',
+                        onClick: (e: React.MouseEvent) => {
+                            e.stopPropagation();
+                            if (!suppressClickRef.current) onSelectedIncidentKeyChange(key);
+                        },
+                    };
+                    const title = describeIncident(incident, taxonomy, isNew);
+                    return (
+                        <g
+                            key={key}
+                            ref={(element) => {
+                                if (element) markerElementsRef.current[key] = element;
+                                else delete markerElementsRef.current[key];
+                            }}
+                            tabIndex={0}
+                            role="button"
+                            aria-label={title}
+                            className="outline-none focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600"
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter' || e.key === ' ') {
+                                    e.preventDefault();
+                                    onSelectedIncidentKeyChange(key);
+                                } else if (arrowKeyDirections[e.key]) {
+                                    e.preventDefault();
+                                    const neighborKey = findNeighborInDirection(
+                                        { lat: incident.latitude, lng: incident.longitude },
+                                        visibleMarkers.filter(marker => marker.key !== key).map(marker => ({ key: marker.key, position: { lat: marker.incident.latitude, lng: marker.incident.longitude } })),
+                                        e.key
+                                    );
+                                    if (neighborKey) markerElementsRef.current[neighborKey]?.focus();
+                                }
+                            }}
+                        >
+                            {precision === 'route' ? (
+                                <polygon points={`${x},${y - radius - 1} ${x + radius + 1},${y} ${x},${y + radius + 1} ${x - radius - 1},${y}`} {...markerProps}>
+                                    <title>{title}</title>
+                                </polygon>
+                            ) : (
+                                <circle cx={x} cy={y} r={radius} {...markerProps}>
+                                    <title>{title}</title>
+                                </circle>
+                            )}
+                            {isNew && (
+                                <>
+                                    <circle cx={x} cy={y} r={radius + 2.5} fill="none" stroke={newIncidentColor} strokeWidth={2} pointerEvents="none" />
+                                    <text x={x} y={y - radius - 5} fontSize="9" fontWeight="bold" textAnchor="middle" fill={newIncidentColor} stroke="#FFFFFF" strokeWidth="2.5" paintOrder="stroke" pointerEvents="none">new</text>
+                                </>
+                            )}
+                        </g>
+                    );
+                })}
+
+                {/* Saved places */}
+                {savedPlaces.map(place => {
+                    const { x, y } = toScreen(place.position);
+                    return (
+                        <text key={place.id} x={x} y={y} fontSize="20" textAnchor="middle" dominantBaseline="central" fill="#F59E0B" stroke="#FFFFFF" strokeWidth="1" pointerEvents="none">
+                            ★<title>{place.name}</title>
+                        </text>
+                    );
+                })}
+            </svg>
+
+            {/* Zoom controls */}
+            <div className="absolute top-2 right-2 z-10 flex flex-col bg-white rounded-md shadow-md border border-gray-300 divide-y divide-gray-200 overflow-hidden">
+                <button type="button" className={zoomButtonClass} onClick={() => zoomAt(1)} title="Zoom in" aria-label="Zoom in">+</button>
+                <button type="button" className={zoomButtonClass} onClick={() => zoomAt(-1)} title="Zoom out" aria-label="Zoom out">−</button>
+                <button
+                    type="button"
+                    className={`${zoomButtonClass} text-sm`}
+                    onClick={() => { setCenter(dataSource.center); setZoom(clampZoom(dataSource.zoom)); }}
+                    title={`Show all of ${dataSource.name}`}
+                    aria-label={`Show all of ${dataSource.name}`}
+                >
+                    ⌂
+                </button>
+            </div>
+
+            {/* Selected incident */}
+            {selectedIncident && (
+                <div role="region" aria-label="Incident details" className="absolute top-2 left-2 z-10 w-72 max-w-[calc(100%-4rem)] max-h-[calc(100%-1rem)] overflow-y-auto bg-white rounded-md shadow-md border border-gray-300">
+                    <button
+                        type="button"
+                        onClick={closeIncidentDetails}
+                        className="float-right px-2 py-1 text-gray-500 hover:text-gray-800 focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500"
+                        aria-label="Close incident details"
+                    >
+                        ✕
+                    </button>
+                    <IncidentDetails incident={selectedIncident} dataSource={dataSource} headingRef={detailsHeadingRef} />
+                </div>
+            )}
+
+            <p className="absolute bottom-2 left-2 z-10 max-w-[50%] bg-white/90 rounded-md shadow-md border border-gray-300 px-2 py-1 text-xs text-gray-600">
+                {notice ?? <>Simplified map: set <code>NEXT_PUBLIC_GOOGLE_MAPS_API_KEY</code> for the full map, search, area drawing and density views.</>}
+                {' '}Street lines are approximate.
+            </p>
+
+            <MapLegend
+                categories={legendCategories}
+                categoryColorMap={categoryColorMap}
+                countsBySeverity={countsInView}
+                selectedCategories={selectedCategories}
+                onSelectedCategoriesChange={onSelectedCategoriesChange}
+                taxonomy={taxonomy}
+            />
+        </div>
+    );
+}
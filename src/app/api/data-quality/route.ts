@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { defaultDataSource, findDataSource } from '@/lib/dataSources';
+import { getDataQualityReport } from '@/lib/incidentData';
+
+// GET /api/data-quality?city=<id> - validation report for a data source's incidents (default: the first source).
+// Reports are computed once per server process, so this only serializes them.
+export function GET(request: NextRequest) {
+    const city = request.nextUrl.searchParams.get('city');
+    const source = city === null ? defaultDataSource : findDataSource(city);
+    if (!source) {
+        return NextResponse.json({ error: `Unknown "city" "${city}"` }, { status: 400 });
+    }
+    return NextResponse.json(getDataQualityReport(source));
+}
@@ -0,0 +1,58 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { defaultDataSource, findDataSource } from '@/lib/dataSources';
+import { filterIncidents, parseIncidentQueryParams } from '@/lib/filters';
+import { getSourceDataVersion, getSourceIncidents } from '@/lib/incidentData';
+
+const defaultPageSize = 100;
+const maxPageSize = 1000;
+
+// Responses only change when new incident data is deployed, so let browsers and the CDN cache them
+const cacheControl = 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400';
+
+// GET /api/incidents
+// Query parameters are documented on parseIncidentQueryParams, plus:
+//   city    data source id (default: the first source in dataSources.ts)
+//   page    1-based page number (default 1)
+//   limit   page size (default 100, max 1000)
+export function GET(request: NextRequest) {
+    const params = request.nextUrl.searchParams;
+
+    const source = params.has('city') ? findDataSource(params.get('city')) : defaultDataSource;
+    if (!source) {
+        return NextResponse.json({ error: `Unknown "city" "${params.get('city')}"` }, { status: 400 });
+    }
+
+    const parsed = parseIncidentQueryParams(params, source.taxonomy);
+    if ('error' in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const page = params.has('page') ? Number(params.get('page')) : 1;
+    const limit = params.has('limit') ? Number(params.get('limit')) : defaultPageSize;
+    if (!Number.isInteger(page) || page < 1) {
+        return NextResponse.json({ error: `Invalid "page" "${params.get('page')}", expected a positive integer` }, { status: 400 });
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > maxPageSize) {
+        return NextResponse.json({ error: `Invalid "limit" "${params.get('limit')}", expected an integer between 1 and ${maxPageSize}` }, { status: 400 });
+    }
+
+    const matching = filterIncidents(getSourceIncidents(source), parsed.query, source.taxonomy);
+    const body = JSON.stringify({
+        total: matching.length,
+        page,
+        limit,
+        pageCount: Math.max(1, Math.ceil(matching.length / limit)),
+        incidents: matching.slice((page - 1) * limit, page * limit),
+    });
+
+    const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+    // Same for every page and filter of one deployment of the data, so clients can tell pages of different deployments apart
+    const headers = { 'Cache-Control': cacheControl, 'ETag': etag, 'X-Data-Version': getSourceDataVersion(source) };
+
+    if (request.headers.get('if-none-match') === etag) {
+        return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(body, { headers: { ...headers, 'Content-Type': 'application/json' } });
+}
@@ -0,0 +1,29 @@
+import { ImageResponse } from "next/og";
+
+// Icon sizes listed in the web app manifest
+const iconSizes = [192, 512];
+
+export const dynamicParams = false;
+export const generateStaticParams = () => iconSizes.map(size => ({ size: String(size) }));
+
+// GET /app-icon/<size> - square PNG app icon for installing the app: a map pin over colored incident dots
+export async function GET(_request: Request, { params }: { params: Promise<{ size: string }> }) {
+    const size = Number((await params).size);
+    const unit = size / 16;
+    const dot = (left: number, top: number, color: string) => (
+        <div style={{ position: 'absolute', left: left * unit, top: top * unit, width: 2 * unit, height: 2 * unit, borderRadius: unit, background: color, border: `${unit / 4}px solid #FFFFFF` }} />
+    );
+    return new ImageResponse(
+        (
+            <div style={{ display: 'flex', position: 'relative', width: '100%', height: '100%', background: '#4F46E5' }}>
+                {dot(2.5, 10.5, '#B91C1C')}
+                {dot(11.5, 11, '#F59E0B')}
+                {dot(12, 3.5, '#10B981')}
+                <div style={{ position: 'absolute', left: 4.5 * unit, top: 3 * unit, width: 7 * unit, height: 7 * unit, borderRadius: '50% 50% 50% 0', transform: 'rotate(-45deg)', background: '#FFFFFF', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                    <div style={{ width: 2.5 * unit, height: 2.5 * unit, borderRadius: 2 * unit, background: '#4F46E5' }} />
+                </div>
+            </div>
+        ),
+        { width: size, height: size }
+    );
+}
@@ -0,0 +1,124 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { DataSource, defaultDataSource, findDataSource } from "@/lib/dataSources";
+import { getDataQualityReport } from "@/lib/incidentData";
+import { IssueCode, issueCodeDescriptions } from "@/lib/validation";
+
+type DataQualityPageProps = { searchParams: Promise<{ city?: string | string[] }> };
+
+const findPageSource = async (searchParams: DataQualityPageProps['searchParams']): Promise<DataSource> => {
+  const { city } = await searchParams;
+  return findDataSource(typeof city === 'string' ? city : undefined) ?? defaultDataSource;
+};
+
+export async function generateMetadata({ searchParams }: DataQualityPageProps): Promise<Metadata> {
+  const source = await findPageSource(searchParams);
+  return {
+    title: `Data Quality | ${source.name} Police Log Visualizer`,
+    description: `Validation report for the incident data behind the ${source.name} Police Log Visualizer.`,
+  };
+}
+
+// Validation report for a data source's incidents (?city=, default: the first source)
+export default async function DataQualityPage({ searchParams }: DataQualityPageProps) {
+  const source = await findPageSource(searchParams);
+  const cityQuery = source === defaultDataSource ? '' : `?city=${source.id}`;
+  const report = getDataQualityReport(source);
+  const checks = Object.keys(issueCodeDescriptions) as IssueCode[];
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-md p-4">
+        <h1 className="text-xl sm:text-2xl font-bold text-center text-gray-800">Data Quality Report</h1>
+        <p className="text-center text-sm text-gray-600 mt-1">
+          Validation of the {source.name} incident data, generated {new Date(report.generatedAt).toUTCString()}.
+        </p>
+        <div className="flex justify-center items-center space-x-4 text-xs text-blue-600 mt-1">
+          <Link href={`/${cityQuery}`} className="hover:underline">Back to the map</Link>
+          <span className="text-gray-400">|</span>
+          <a href={`/api/data-quality${cityQuery}`} className="hover:underline">Download JSON report</a>
+        </div>
+      </header>
+
+      <main className="flex-grow container mx-auto p-4 md:p-6 lg:p-8 space-y-6 text-gray-800">
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[
+            { label: 'Records', value: report.totalRecords, className: 'text-gray-800' },
+            { label: 'Served (no errors)', value: report.validRecords, className: 'text-green-700' },
+            { label: 'Errors', value: report.errorCount, className: report.errorCount > 0 ? 'text-red-700' : 'text-gray-800' },
+            { label: 'Warnings', value: report.warningCount, className: report.warningCount > 0 ? 'text-orange-700' : 'text-gray-800' },
+          ].map(({ label, value, className }) => (
+            <div key={label} className="bg-white rounded-lg shadow border border-gray-200 p-4">
+              <p className="text-sm text-gray-600">{label}</p>
+              <p className={`text-2xl font-bold ${className}`}>{value}</p>
+            </div>
+          ))}
+        </div>
+
+        {/* Checks */}
+        <section className="bg-white rounded-lg shadow border border-gray-200 overflow-hidden">
+          <h2 className="p-4 text-lg font-semibold text-gray-700 border-b border-gray-200">Checks</h2>
+          <table className="min-w-full text-sm text-left">
+            <thead className="bg-gray-50 text-xs uppercase text-gray-500">
+              <tr>
+                <th scope="col" className="px-4 py-2">Check</th>
+                <th scope="col" className="px-4 py-2">Description</th>
+                <th scope="col" className="px-4 py-2 text-right">Issues</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {checks.map(code => (
+                <tr key={code}>
+                  <td className="px-4 py-2 font-mono text-xs">{code}</td>
+                  <td className="px-4 py-2">{issueCodeDescriptions[code]}</td>
+                  <td className={`px-4 py-2 text-right font-medium ${report.countsByCode[code] ? 'text-orange-700' : 'text-green-700'}`}>
+                    {report.countsByCode[code] ?? '✓'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        {/* Issues */}
+        <section className="bg-white rounded-lg shadow border border-gray-200 overflow-hidden">
+          <h2 className="p-4 text-lg font-semibold text-gray-700 border-b border-gray-200">Issues ({report.issues.length})</h2>
+          {report.issues.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500 italic">No issues found.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm text-left">
+                <thead className="bg-gray-50 text-xs uppercase text-gray-500">
+                  <tr>
+                    <th scope="col" className="px-4 py-2">Record #</th>
+                    <th scope="col" className="px-4 py-2">Case</th>
+                    <th scope="col" className="px-4 py-2">Severity</th>
+                    <th scope="col" className="px-4 py-2">Check</th>
+                    <th scope="col" className="px-4 py-2">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {report.issues.map((issue, i) => (
+                    <tr key={i}>
+                      <td className="px-4 py-1.5 whitespace-nowrap">{issue.index >= 0 ? issue.index : '—'}</td>
+                      <td className="px-4 py-1.5 whitespace-nowrap">{issue.caseNumber ?? '—'}</td>
+                      <td className="px-4 py-1.5 whitespace-nowrap">
+                        <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${issue.severity === 'error' ? 'bg-red-100 text-red-800' : 'bg-orange-100 text-orange-800'}`}>
+                          {issue.severity}
+                        </span>
+                      </td>
+                      <td className="px-4 py-1.5 whitespace-nowrap font-mono text-xs">{issue.code}</td>
+                      <td className="px-4 py-1.5">{issue.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
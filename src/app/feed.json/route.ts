@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { renderFeed } from '@/lib/feeds';
+
+// Feeds only change when new incident data is deployed, like /api/incidents
+const cacheControl = 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400';
+
+// GET /feed.json - JSON Feed 1.1 version of /feed.xml, with the same parameters
+export function GET(request: NextRequest) {
+    const result = renderFeed(request.nextUrl.searchParams, request.nextUrl.origin, request.nextUrl.pathname, 'json');
+    if ('error' in result) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return new NextResponse(result.body, { headers: { 'Cache-Control': cacheControl, 'Content-Type': 'application/feed+json; charset=utf-8' } });
+}
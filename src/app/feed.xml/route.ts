@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { renderFeed } from '@/lib/feeds';
+
+// Feeds only change when new incident data is deployed, like /api/incidents
+const cacheControl = 'public, max-age=300, s-maxage=3600, stale-while-revalidate=86400';
+
+// GET /feed.xml - Atom feed of the incidents matching the query, from the latest police logs.
+// Accepts `city` and the /api/incidents filter parameters (see parseIncidentQueryParams), but no paging.
+export function GET(request: NextRequest) {
+    const result = renderFeed(request.nextUrl.searchParams, request.nextUrl.origin, request.nextUrl.pathname, 'atom');
+    if ('error' in result) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return new NextResponse(result.body, { headers: { 'Cache-Control': cacheControl, 'Content-Type': 'application/atom+xml; charset=utf-8' } });
+}
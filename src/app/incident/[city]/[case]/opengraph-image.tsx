@@ -0,0 +1,57 @@
+import { ImageResponse } from "next/og";
+import { findIncidentByKey, findNearbyIncidents, getAllIncidentPageParams, renderIncidentThumbnailSvg, svgDataUri } from "@/lib/incidentPages";
+import { formatIncidentTime, getLocationPrecision } from "@/lib/incidents";
+import { getIncidentStyle } from "@/lib/taxonomy";
+
+export const alt = "Police log incident on a map";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+export const generateStaticParams = getAllIncidentPageParams;
+
+// Link preview card: the offense, category, date and address next to a street map of the spot (the SVG thumbnail,
+// since chat apps fetch previews without a referrer and a restricted Google Maps key would be refused)
+export default async function IncidentOpenGraphImage({ params }: { params: Promise<{ city: string, case: string }> }) {
+  const { city, case: key } = await params;
+  const found = findIncidentByKey(city, key);
+  if (!found) {
+    return new ImageResponse(
+      <div style={{ display: 'flex', width: '100%', height: '100%', alignItems: 'center', justifyContent: 'center', background: '#F9FAFB', fontSize: 48, color: '#374151' }}>
+        Incident not found
+      </div>,
+      size
+    );
+  }
+
+  const { incident, source } = found;
+  const style = getIncidentStyle(incident, source.taxonomy);
+  const precision = getLocationPrecision(incident);
+  const thumbnail = svgDataUri(renderIncidentThumbnailSvg(incident, source, findNearbyIncidents(incident, source), { width: 520, height: 630, zoom: 16 }));
+
+  return new ImageResponse(
+    (
+      <div style={{ display: 'flex', width: '100%', height: '100%', background: '#FFFFFF' }}>
+        <div style={{ display: 'flex', flexDirection: 'column', width: 680, padding: '48px 48px 40px', borderLeft: `16px solid ${style.color}` }}>
+          <div style={{ display: 'flex', fontSize: 26, color: '#6B7280' }}>{source.name} Police Log Visualizer</div>
+          <div style={{ display: 'flex', marginTop: 24, fontSize: 52, fontWeight: 700, color: '#111827', lineHeight: 1.15 }}>{incident.offense_type}</div>
+          <div style={{ display: 'flex', alignItems: 'center', marginTop: 24, fontSize: 30, color: '#374151' }}>
+            <div style={{ display: 'flex', width: 24, height: 24, borderRadius: 4, marginRight: 12, background: style.color }} />
+            {incident.offense_category} · {style.severity} severity
+          </div>
+          <div style={{ display: 'flex', marginTop: 16, fontSize: 30, color: '#374151' }}>
+            {incident.date} at {formatIncidentTime(incident.time)}
+          </div>
+          <div style={{ display: 'flex', marginTop: 16, fontSize: 30, color: '#374151' }}>
+            {(incident.formatted_address || incident.location).replace(/,\s*USA$/, '')}
+            {precision === 'address' ? '' : ` (approximate ${precision})`}
+          </div>
+          <div style={{ display: 'flex', marginTop: 'auto', fontSize: 24, color: '#6B7280' }}>
+            Case {incident.case_number}{incident.police_record_date ? ` · ${incident.police_record_date} police log` : ''}
+          </div>
+        </div>
+        <img src={thumbnail} width={520} height={630} alt="" />
+      </div>
+    ),
+    size
+  );
+}
@@ -0,0 +1,187 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { appName, defaultDataSource, findDataSource } from "@/lib/dataSources";
+import { incidentPermalink } from "@/lib/feeds";
+import {
+  findIncidentByKey,
+  findLatestIncidentByCase,
+  findNearbyIncidents,
+  getAllIncidentPageParams,
+  nearbyRadiusMeters,
+  renderIncidentThumbnailSvg,
+  staticMapUrl,
+  svgDataUri,
+} from "@/lib/incidentPages";
+import { formatIncidentTime, getLocationPrecision, incidentPagePath, locationPrecisionNotes } from "@/lib/incidents";
+import { getIncidentStyle } from "@/lib/taxonomy";
+
+type IncidentPageProps = { params: Promise<{ city: string, case: string }> };
+
+// One page per incident, under its data source and keyed like the map markers: case number + police log date
+// (e.g. /incident/palo-alto/25-01153-march-28-2025). Built for every incident at build time; other keys are looked up on request.
+export const generateStaticParams = getAllIncidentPageParams;
+
+export async function generateMetadata({ params }: IncidentPageProps): Promise<Metadata> {
+  const { city, case: key } = await params;
+  const found = findIncidentByKey(city, key);
+  if (!found) return { title: `Incident not found | ${appName}` };
+  const { incident, source } = found;
+  const style = getIncidentStyle(incident, source.taxonomy);
+  const address = (incident.formatted_address || incident.location).replace(/,\s*USA$/, '');
+  const title = `${incident.offense_type} – ${address}`;
+  const description = `Case ${incident.case_number}: ${incident.offense_category} (${style.severity} severity) on ${incident.date} at ${formatIncidentTime(incident.time)}` +
+    `${incident.police_record_date ? `, from the ${incident.police_record_date} police log` : ''} of the ${source.agency}.`;
+  return {
+    title: `${title} | ${source.name} Police Log Visualizer`,
+    description,
+    alternates: { canonical: incidentPagePath(incident, source.id) },
+    openGraph: { type: "article", title, description, url: incidentPagePath(incident, source.id), siteName: `${source.name} Police Log Visualizer` },
+    twitter: { card: "summary_large_image", title, description },
+  };
+}
+
+// All fields of one incident, a map of where it happened, links to the map and the original log, and nearby incidents
+export default async function IncidentPage({ params }: IncidentPageProps) {
+  const { city, case: key } = await params;
+  const found = findIncidentByKey(city, key);
+  if (!found) {
+    // A bare case number (e.g. /incident/palo-alto/25-01153) goes to its latest log entry
+    const source = findDataSource(city);
+    const latest = source && findLatestIncidentByCase(source, key);
+    if (source && latest) redirect(incidentPagePath(latest, source.id));
+    notFound();
+  }
+
+  const { incident, source } = found;
+  const cityQuery = source === defaultDataSource ? '' : `?city=${source.id}`;
+  const style = getIncidentStyle(incident, source.taxonomy);
+  const precision = getLocationPrecision(incident);
+  const nearby = findNearbyIncidents(incident, source);
+  const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
+  const mapImageUrl = apiKey
+    ? staticMapUrl(incident, source, nearby, apiKey)
+    : svgDataUri(renderIncidentThumbnailSvg(incident, source, nearby, { width: 640, height: 320, zoom: 16 }));
+
+  const fields: { label: string, value: React.ReactNode }[] = [
+    { label: 'Case number', value: incident.case_number },
+    { label: 'Offense type', value: incident.offense_type },
+    {
+      label: 'Category',
+      value: (
+        <>
+          <span className="w-3 h-3 rounded-sm mr-1.5 inline-block align-middle" style={{ backgroundColor: style.color }}></span>
+          <span aria-hidden="true">{style.icon} </span>{incident.offense_category} ({style.severity} severity)
+        </>
+      ),
+    },
+    { label: 'Date', value: incident.date },
+    { label: 'Time', value: formatIncidentTime(incident.time) },
+    { label: 'Address', value: incident.formatted_address || '—' },
+    { label: 'Log location', value: incident.location },
+    { label: 'Location type', value: incident.location_interpretation || '—' },
+    { label: 'Place types', value: incident.place_types || '—' },
+    { label: 'Precision', value: locationPrecisionNotes[precision] },
+    { label: 'Coordinates', value: `${incident.latitude.toFixed(6)}, ${incident.longitude.toFixed(6)}` },
+    { label: 'Police log date', value: incident.police_record_date ?? '—' },
+  ];
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-md p-4">
+        <h1 className="text-xl sm:text-2xl font-bold text-center text-gray-800">{incident.offense_type}</h1>
+        <p className="text-center text-sm text-gray-600 mt-1">
+          Case {incident.case_number} · {incident.formatted_address || incident.location}
+        </p>
+        <div className="flex justify-center items-center space-x-4 text-xs text-blue-600 mt-1">
+          <Link href={incidentPermalink(incident, source, '')} className="hover:underline">Open on the map</Link>
+          <span className="text-gray-400">|</span>
+          <a href={source.sourceDocumentUrl(incident)} target="_blank" rel="noopener noreferrer" className="hover:underline">Original police log (PDF)</a>
+          <span className="text-gray-400">|</span>
+          <Link href={`/${cityQuery}`} className="hover:underline">All incidents</Link>
+        </div>
+      </header>
+
+      <main className="flex-grow container mx-auto p-4 md:p-6 lg:p-8 space-y-6 text-gray-800">
+        {/* Map */}
+        <section className="bg-white rounded-lg shadow border border-gray-200 overflow-hidden">
+          {/* A plain image: a Google Static Maps URL or an inline SVG, neither of which next/image would optimize */}
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={mapImageUrl}
+            width={640}
+            height={320}
+            className="w-full h-auto max-h-80 object-cover bg-gray-100"
+            alt={`Map of ${incident.formatted_address || incident.location} with ${nearby.length} nearby incident${nearby.length === 1 ? '' : 's'} in gray`}
+          />
+          {precision !== 'address' && <p className="px-4 py-2 text-xs text-amber-700">{locationPrecisionNotes[precision]}</p>}
+        </section>
+
+        {/* Details */}
+        <section className="bg-white rounded-lg shadow border border-gray-200 overflow-hidden">
+          <h2 className="p-4 text-lg font-semibold text-gray-700 border-b border-gray-200">Details</h2>
+          <dl className="divide-y divide-gray-100 text-sm">
+            {fields.map(({ label, value }) => (
+              <div key={label} className="px-4 py-2 grid grid-cols-3 gap-4">
+                <dt className="font-medium text-gray-600">{label}</dt>
+                <dd className="col-span-2">{value}</dd>
+              </div>
+            ))}
+          </dl>
+          <div className="px-4 py-3 border-t border-gray-200 flex flex-wrap gap-x-4 gap-y-1 text-sm">
+            <a href={source.sourceDocumentUrl(incident)} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 hover:underline">
+              View Original Police Log
+            </a>
+            {incident.google_maps_uri && (
+              <a href={incident.google_maps_uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 hover:underline">
+                View on Google Maps
+              </a>
+            )}
+          </div>
+        </section>
+
+        {/* Nearby incidents */}
+        <section className="bg-white rounded-lg shadow border border-gray-200 overflow-hidden">
+          <h2 className="p-4 text-lg font-semibold text-gray-700 border-b border-gray-200">
+            Nearby Incidents ({nearby.length})
+            <span className="ml-2 text-sm font-normal text-gray-500">within {nearbyRadiusMeters} m, closest first</span>
+          </h2>
+          {nearby.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500 italic">No other incidents within {nearbyRadiusMeters} m.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm text-left">
+                <thead className="bg-gray-50 text-xs uppercase text-gray-500">
+                  <tr>
+                    <th scope="col" className="px-4 py-2">Offense</th>
+                    <th scope="col" className="px-4 py-2">Category</th>
+                    <th scope="col" className="px-4 py-2">Date</th>
+                    <th scope="col" className="px-4 py-2">Address</th>
+                    <th scope="col" className="px-4 py-2 text-right">Distance</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {nearby.map(({ incident: other, distance }) => (
+                    <tr key={incidentPagePath(other, source.id)}>
+                      <td className="px-4 py-1.5">
+                        <Link href={incidentPagePath(other, source.id)} className="text-blue-600 hover:underline">{other.offense_type}</Link>
+                      </td>
+                      <td className="px-4 py-1.5 whitespace-nowrap">
+                        <span className="w-2.5 h-2.5 rounded-sm mr-1.5 inline-block align-middle" style={{ backgroundColor: getIncidentStyle(other, source.taxonomy).color }}></span>
+                        {other.offense_category}
+                      </td>
+                      <td className="px-4 py-1.5 whitespace-nowrap">{other.date}</td>
+                      <td className="px-4 py-1.5">{other.formatted_address || other.location}</td>
+                      <td className="px-4 py-1.5 text-right whitespace-nowrap">{Math.round(distance)} m</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
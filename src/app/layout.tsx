@@ -1,6 +1,8 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import { Analytics } from "@vercel/analytics/react";
+import { appName, coveredCityNames } from "@/lib/dataSources";
+import { ServiceWorkerStatus } from "./ServiceWorkerStatus";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -14,8 +16,24 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Palo Alto Police Log Visualizer",
-  description: "Visualize recent Palo Alto police report logs. Search places to see nearby incidents. A pet project by Sourya Kakarla.",
+  title: appName,
+  description: `Visualize recent ${coveredCityNames} police report logs. Search places to see nearby incidents. A pet project by Sourya Kakarla.`,
+  // Absolute base for Open Graph URLs (incident link previews); on Vercel, Next.js falls back to the production URL
+  ...(process.env.NEXT_PUBLIC_SITE_URL ? { metadataBase: new URL(process.env.NEXT_PUBLIC_SITE_URL) } : {}),
+  // Feed autodiscovery for readers (unfiltered; the map's "Subscribe" link carries the filters)
+  alternates: {
+    types: {
+      "application/atom+xml": [{ url: "/feed.xml", title: "Police log incidents (Atom)" }],
+      "application/feed+json": [{ url: "/feed.json", title: "Police log incidents (JSON Feed)" }],
+    },
+  },
+  // Installed app (the manifest is src/app/manifest.ts)
+  appleWebApp: { capable: true, title: "Police Log" },
+  icons: { apple: "/app-icon/192" },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#4F46E5",
 };
 
 export default function RootLayout({
@@ -29,6 +47,7 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         {children}
+        <ServiceWorkerStatus />
         <Analytics />
       </body>
     </html>
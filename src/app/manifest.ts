@@ -0,0 +1,21 @@
+import type { MetadataRoute } from "next";
+import { appName, coveredCityNames } from "@/lib/dataSources";
+
+// Web app manifest (/manifest.webmanifest), so the map can be installed and opened like an app; offline support is in public/sw.js
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: appName,
+    short_name: "Police Log",
+    description: `Visualize recent ${coveredCityNames} police report logs, also offline with the last loaded data.`,
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    background_color: "#F9FAFB",
+    theme_color: "#4F46E5",
+    icons: [
+      { src: "/app-icon/192", sizes: "192x192", type: "image/png", purpose: "any" },
+      { src: "/app-icon/512", sizes: "512x512", type: "image/png", purpose: "any" },
+      { src: "/app-icon/512", sizes: "512x512", type: "image/png", purpose: "maskable" },
+    ],
+  };
+}
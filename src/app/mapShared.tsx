@@ -0,0 +1,360 @@
+"use client"; // The legend uses React state
+
+import { useMemo, useState } from 'react';
+import Link from "next/link";
+import { DataSource } from '@/lib/dataSources';
+import { LocationFilter } from '@/lib/filterState';
+import { BoundsLiteral, DrawnArea, isInBounds, LatLngLiteral, projectToWorld } from '@/lib/geo';
+import { formatIncidentTime, getLocationPrecision, Incident, incidentPagePath, locationPrecisionNotes } from '@/lib/incidents';
+import { Region } from '@/lib/regions';
+import { SavedPlace } from '@/lib/savedPlaces';
+import { StreetLine } from '@/lib/streets';
+import {
+  getCategorySeverityLevel,
+  getCategoryStyle,
+  getIncidentSeverityLevel,
+  getIncidentStyle,
+  getSeverityOrder,
+  Taxonomy,
+} from '@/lib/taxonomy';
+
+// Types, components and helpers shared by the two map renderers: MapContent (Google Maps) in page.tsx and
+// SvgMapRenderer (the fallback without Google Maps) in SvgMapRenderer.tsx.
+
+// --- Shared Types ---
+// Define type for selected place details
+export interface PlaceDetails {
+    name: string;
+    formattedAddress: string;
+}
+
+// Marker color of each category
+export interface CategoryColorMap {
+    [key: string]: string;
+}
+
+export type VisualizationMode = 'markers' | 'density' | 'regions';
+export type DensityWeighting = 'count' | 'severity';
+
+export type RegionMetric = 'count' | 'share';
+
+// How the regions view shades incidents
+export interface RegionViewOptions {
+    metric: RegionMetric; // 'share' = percentage of the region's incidents in `category`
+    category: string; // '' = all categories
+}
+
+// Map view values from MapContent that are encoded in the query string
+export interface MapViewState {
+    center: LatLngLiteral;
+    zoom: number;
+    place: (PlaceDetails & { position: LatLngLiteral }) | null;
+    radius: number;
+    mode: VisualizationMode;
+    weighting: DensityWeighting;
+    regions: RegionViewOptions;
+}
+
+// Everything a map renderer gets from Home
+export interface MapRendererProps {
+    dataSource: DataSource;
+    incidentsToDisplay: Incident[];
+    categoryColorMap: CategoryColorMap;
+    initialViewState: MapViewState;
+    onViewStateChange?: (viewState: MapViewState) => void;
+    selectedIncidentKey: string | null;
+    onSelectedIncidentKeyChange: (key: string | null) => void;
+    focusRequest?: { incidentKey: string } | null; // A new object pans/zooms the map to that incident
+    legendCategories: string[];
+    selectedCategories: string[];
+    onSelectedCategoriesChange: (categories: string[]) => void;
+    savedPlaces: SavedPlace[];
+    onSavePlace: (place: PlaceDetails & { position: LatLngLiteral }) => void;
+    placeFocusRequest?: { place: SavedPlace } | null; // A new object makes that saved place the searched place
+    boundsFocusRequest?: { bounds: BoundsLiteral } | null; // A new object fits the map to those bounds
+    areas: DrawnArea[];
+    onAreasChange: (areas: DrawnArea[]) => void;
+    zipRegions: Region[];
+    newIncidentKeys: Set<string>; // Incidents from police logs newer than the last visit
+    locationFilter: LocationFilter; // 'areas' draws route/intersection incidents with their approximate area
+    streets: StreetLine[];
+    onViewportBoundsChange?: (bounds: BoundsLiteral) => void; // Reports the visible area (for the accessible incident list)
+}
+
+// Outline and fill of drawn areas on both maps
+export const areaStyle = {
+    strokeColor: '#7C3AED',
+    strokeOpacity: 0.9,
+    strokeWeight: 2,
+    fillColor: '#8B5CF6',
+    fillOpacity: 0.1,
+};
+
+// Incidents at the same coordinates share this key
+export const coordinateKey = (incident: Incident): string => `${incident.latitude.toFixed(6)},${incident.longitude.toFixed(6)}`;
+
+// Pick the incident with the highest severity among a group of incidents
+export const getHighestSeverityIncident = (incidents: Incident[], taxonomy: Taxonomy): Incident => {
+    const severityOrder = getSeverityOrder(taxonomy);
+    let topIncident = incidents[0];
+    let topIndex = severityOrder.length;
+    incidents.forEach(incident => {
+        const index = severityOrder.indexOf(getIncidentSeverityLevel(incident, taxonomy));
+        if (index < topIndex) {
+            topIndex = index;
+            topIncident = incident;
+        }
+    });
+    return topIncident;
+};
+
+// --- Map Legend ---
+// Collapsible key of severity tiers and their categories, with counts for the incidents in the current viewport.
+// Clicking a tier toggles all of its categories in the category filter; clicking a category toggles just that one.
+
+// Incident counts by severity tier, then category
+export type LegendCounts = { [severity: string]: { [category: string]: number } };
+
+// Counts the incidents inside the bounds (all of them without bounds) by their own severity, i.e. with the offense type
+// overrides applied like the markers and the severity filter, so a category can show up in more than one tier
+export const countIncidentsForLegend = (incidents: Incident[], bounds: BoundsLiteral | null, taxonomy: Taxonomy): LegendCounts => {
+    const counts: LegendCounts = {};
+    incidents.forEach(incident => {
+        if (bounds && !isInBounds({ lat: incident.latitude, lng: incident.longitude }, bounds)) return;
+        const tier = counts[getIncidentSeverityLevel(incident, taxonomy)] ??= {};
+        tier[incident.offense_category] = (tier[incident.offense_category] || 0) + 1;
+    });
+    return counts;
+};
+
+export function MapLegend({
+    categories,
+    categoryColorMap,
+    countsBySeverity,
+    selectedCategories,
+    onSelectedCategoriesChange,
+    taxonomy,
+}: {
+    categories: string[],
+    categoryColorMap: CategoryColorMap,
+    countsBySeverity: LegendCounts,
+    selectedCategories: string[],
+    onSelectedCategoriesChange: (categories: string[]) => void,
+    taxonomy: Taxonomy,
+}) {
+    const [isExpanded, setIsExpanded] = useState(true);
+
+    // A category is listed under its own tier, and under any other tier some of its incidents in view were overridden to
+    const tiers = useMemo(() => getSeverityOrder(taxonomy)
+        .map(severity => ({
+            severity,
+            categories: categories.filter(category =>
+                getCategorySeverityLevel(category, taxonomy) === severity || (countsBySeverity[severity]?.[category] ?? 0) > 0),
+        }))
+        .filter(tier => tier.categories.length > 0),
+    [categories, countsBySeverity, taxonomy]);
+
+    const countOf = (severity: string, category: string) => countsBySeverity[severity]?.[category] ?? 0;
+    const totalInView = tiers.reduce((sum, { severity, categories: tierCategories }) =>
+        sum + tierCategories.reduce((tierSum, category) => tierSum + countOf(severity, category), 0), 0);
+    // With no categories selected, everything is shown
+    const isShown = (category: string) => selectedCategories.length === 0 || selectedCategories.includes(category);
+
+    const toggleTier = (tierCategories: string[]) => {
+        const allSelected = tierCategories.every(category => selectedCategories.includes(category));
+        onSelectedCategoriesChange(allSelected
+            ? selectedCategories.filter(category => !tierCategories.includes(category))
+            : [...selectedCategories, ...tierCategories.filter(category => !selectedCategories.includes(category))]);
+    };
+
+    const toggleCategory = (category: string) => {
+        onSelectedCategoriesChange(selectedCategories.includes(category)
+            ? selectedCategories.filter(c => c !== category)
+            : [...selectedCategories, category]);
+    };
+
+    return (
+        <div className="absolute bottom-2 right-2 z-10 w-60 max-w-[calc(100%-1rem)] max-h-[40%] flex flex-col bg-white rounded-md shadow-md border border-gray-300 text-xs text-gray-800">
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="w-full p-2 text-left font-semibold flex items-center hover:bg-gray-50 focus:outline-none"
+                aria-expanded={isExpanded}
+            >
+                <span className="mr-2">{isExpanded ? '▼' : '▲'}</span>
+                <span className="flex-grow">Legend</span>
+                <span className="font-normal text-gray-500">{totalInView} in view</span>
+            </button>
+            {isExpanded && (
+                <div className="px-2 pb-2 border-t border-gray-200 overflow-y-auto">
+                    {tiers.map(({ severity, categories: tierCategories }) => {
+                        const tierCount = tierCategories.reduce((sum, category) => sum + countOf(severity, category), 0);
+                        const allSelected = tierCategories.every(category => selectedCategories.includes(category));
+                        return (
+                            <div key={severity} className="mt-2">
+                                <button
+                                    onClick={() => toggleTier(tierCategories)}
+                                    className={`w-full flex justify-between items-center px-1 py-0.5 rounded font-semibold uppercase text-[10px] tracking-wide ${allSelected ? 'bg-indigo-100 text-indigo-800' : 'text-gray-500 hover:bg-gray-100'}`}
+                                    title={allSelected ? `Stop filtering to ${severity} categories` : `Show ${severity} categories`}
+                                    aria-pressed={allSelected}
+                                >
+                                    <span>{severity}</span>
+                                    <span>{tierCount}</span>
+                                </button>
+                                <ul>
+                                    {tierCategories.map(category => (
+                                        <li key={category}>
+                                            <button
+                                                onClick={() => toggleCategory(category)}
+                                                className={`w-full flex items-center px-1 py-0.5 rounded hover:bg-gray-100 text-left ${isShown(category) ? '' : 'opacity-40'}`}
+                                                title={getCategoryStyle(category, taxonomy).description}
+                                            >
+                                                <span className="w-3 h-3 rounded-full mr-2 inline-block flex-shrink-0 border border-white shadow-sm" style={{ backgroundColor: categoryColorMap[category] || '#9CA3AF' }}></span>
+                                                <span className="flex-grow break-words">{category}</span>
+                                                <span className="ml-1 text-gray-600">{countOf(severity, category)}</span>
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        );
+                    })}
+                    {selectedCategories.length > 0 && (
+                        <button onClick={() => onSelectedCategoriesChange([])} className="mt-2 text-blue-600 hover:underline">
+                            Show all categories
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+// --- Approximate Locations ---
+// Route and intersection geocodes don't pin down where an incident happened. With the "approximate areas"
+// location filter they are drawn with the area they stand for instead of as precise-looking dots.
+
+// Area drawn around an intersection geocode (meters)
+const intersectionUncertaintyMeters = 75;
+// Area drawn around a route geocode whose street isn't in the street lines (meters)
+const routeFallbackRadiusMeters = 500;
+
+export interface ApproximateLocation {
+    key: string;
+    kind: 'intersection' | 'route';
+    position: LatLngLiteral; // The geocoded point
+    incidents: Incident[];
+    color: string; // Color of the most severe incident
+    streets: StreetLine[]; // Street lines a route incident lies along; empty means draw a circle of `radius`
+    radius: number;
+}
+
+const normalizeStreetName = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Street lines matching a route incident's street, e.g. "El Camino Real" from "El Camino Real, Palo Alto, CA, USA"
+const findRouteStreets = (incident: Incident, streets: StreetLine[]): StreetLine[] => {
+    const names = [incident.formatted_address.split(',')[0], incident.location].map(normalizeStreetName).filter(Boolean);
+    return streets.filter(street => names.includes(normalizeStreetName(street.name)));
+};
+
+// One shape per intersection point or route street, covering every approximate incident drawn there
+export const groupApproximateLocations = (incidents: Incident[], streets: StreetLine[], taxonomy: Taxonomy): ApproximateLocation[] => {
+    const groups: { [key: string]: { kind: 'intersection' | 'route', streets: StreetLine[], incidents: Incident[] } } = {};
+    incidents.forEach(incident => {
+        const precision = getLocationPrecision(incident);
+        if (precision === 'address') return;
+        const routeStreets = precision === 'route' ? findRouteStreets(incident, streets) : [];
+        const key = routeStreets.length > 0 ? `route:${normalizeStreetName(routeStreets[0].name)}` : `${precision}:${coordinateKey(incident)}`;
+        (groups[key] ||= { kind: precision, streets: routeStreets, incidents: [] }).incidents.push(incident);
+    });
+    return Object.entries(groups).map(([key, group]) => ({
+        key,
+        kind: group.kind,
+        position: { lat: group.incidents[0].latitude, lng: group.incidents[0].longitude },
+        incidents: group.incidents,
+        color: getIncidentStyle(getHighestSeverityIncident(group.incidents, taxonomy), taxonomy).color,
+        streets: group.streets,
+        radius: group.kind === 'intersection' ? intersectionUncertaintyMeters : routeFallbackRadiusMeters,
+    }));
+};
+
+// --- Keyboard and Screen-Reader Access ---
+// Screen direction of each arrow key
+export const arrowKeyDirections: { [key: string]: { x: number, y: number } } = {
+    ArrowUp: { x: 0, y: -1 },
+    ArrowDown: { x: 0, y: 1 },
+    ArrowLeft: { x: -1, y: 0 },
+    ArrowRight: { x: 1, y: 0 },
+};
+
+// Key of the nearest candidate within 45° of the arrow key's direction from `from`, or null if there is none
+export const findNeighborInDirection = (
+    from: LatLngLiteral,
+    candidates: { key: string, position: LatLngLiteral }[],
+    arrowKey: string
+): string | null => {
+    const direction = arrowKeyDirections[arrowKey];
+    if (!direction) return null;
+    const origin = projectToWorld(from, 0);
+    let bestKey: string | null = null;
+    let bestDistance = Infinity;
+    candidates.forEach(({ key, position }) => {
+        const point = projectToWorld(position, 0);
+        const dx = point.x - origin.x;
+        const dy = point.y - origin.y;
+        const distance = Math.hypot(dx, dy);
+        if (distance === 0 || (dx * direction.x + dy * direction.y) / distance < Math.SQRT1_2) return;
+        if (distance < bestDistance) {
+            bestKey = key;
+            bestDistance = distance;
+        }
+    });
+    return bestKey;
+};
+
+// Spoken name of an incident marker or list entry
+export const describeIncident = (incident: Incident, taxonomy: Taxonomy, isNew: boolean): string => {
+    const style = getIncidentStyle(incident, taxonomy);
+    const precision = getLocationPrecision(incident);
+    return `${incident.offense_type}, ${incident.offense_category} (${style.severity} severity), ${incident.date} at ${formatIncidentTime(incident.time)}, ` +
+        `${incident.formatted_address || incident.location}${precision === 'address' ? '' : ` (approximate ${precision} location)`}${isNew ? ', new since your last visit' : ''}`;
+};
+
+// --- Incident Details ---
+// Details of one incident, shown in the map's pop-up or panel. `headingRef` lets the panel move focus to the heading when it opens.
+export function IncidentDetails({ incident, dataSource, headingRef }: { incident: Incident, dataSource: DataSource, headingRef?: React.Ref<HTMLHeadingElement> }) {
+    const style = getIncidentStyle(incident, dataSource.taxonomy);
+    return (
+        <div className="p-2 text-sm font-sans text-gray-900 border-l-4 border-red-500 pl-3">
+            <h3 ref={headingRef} tabIndex={-1} className="font-semibold text-base mb-1 focus:outline-none">{incident.offense_type}</h3>
+            <p><span className="font-medium">Category:</span> {style.icon} {incident.offense_category} ({style.severity})</p>
+            <p><span className="font-medium">Case:</span> {incident.case_number}</p>
+            <p><span className="font-medium">Date:</span> {incident.date}</p>
+            <p><span className="font-medium">Time:</span> {formatIncidentTime(incident.time)}</p>
+            <p><span className="font-medium">Address:</span> {incident.formatted_address || incident.location}</p>
+            <p><span className="font-medium">Log location:</span> {incident.location}</p>
+            <p><span className="font-medium">Type:</span> {incident.location_interpretation}</p>
+            <p className={`text-xs mt-0.5 ${getLocationPrecision(incident) === 'address' ? 'text-gray-500' : 'text-amber-700'}`}>
+                {locationPrecisionNotes[getLocationPrecision(incident)]}
+            </p>
+            {incident.google_maps_uri && (
+                <a href={incident.google_maps_uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 hover:underline mt-1 block">
+                    View on Google Maps
+                </a>
+            )}
+            {incident.police_record_date && (
+                <p className="mt-1"><span className="font-medium">Police Log Date:</span> {incident.police_record_date}</p>
+            )}
+            <a
+                href={dataSource.sourceDocumentUrl(incident)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 hover:text-blue-800 hover:underline mt-1 block"
+            >
+                View Original Police Log
+            </a>
+            <Link href={incidentPagePath(incident, dataSource.id)} className="text-blue-600 hover:text-blue-800 hover:underline mt-1 block">
+                Incident page (link to share)
+            </Link>
+        </div>
+    );
+}
@@ -1,97 +1,1135 @@
 "use client"; // Required for components using React Context like Google Maps
 
-import { useState, useRef, useEffect, useMemo } from 'react'; // Import useRef, useEffect, useMemo
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react'; // Import useRef, useEffect, useMemo, useCallback
+import Link from "next/link";
 import { APIProvider, Map, AdvancedMarker, InfoWindow, useMap } from "@vis.gl/react-google-maps"; // Import useMap
-import incidentData from "../../public/data/incidents.json"; // Adjust path if needed
-
-// Updated interface to match the actual data structure
-interface Incident {
-  case_number: string; // Use case_number as the unique key
-  date: string;
-  time: number;
-  offense_type: string;
-  offense_category: string;
-  location: string;
-  latitude: number;
-  longitude: number;
-  formatted_address: string;
-  google_maps_uri: string;
-  place_types: string;
-  location_interpretation: string;
-  police_record_date_str?: string; // Added field for the report date string (e.g., "april-07-2025")
-  police_record_date?: string; // Added field for the formatted report date
-  // Removed 'id' and 'description'
+import { filterIncidents, formatAreaParam } from '@/lib/filters';
+import { DataSource, dataSources, defaultDataSource, findDataSource } from '@/lib/dataSources';
+import { buildExportFilename, downloadFile, ExportFormat, incidentsToCsv, incidentsToGeoJson, incidentsToKml } from '@/lib/exports';
+import { appendFilterParams, defaultFilterState, feedQueryString, FilterState, filterQueryString, LocationFilter, parseFilterParams, toIncidentQuery } from '@/lib/filterState';
+import { BoundsLiteral, distanceInMeters, DrawnArea, isInArea, isInBounds, LatLngLiteral, projectToWorld, unprojectFromWorld } from '@/lib/geo';
+import {
+  computeIncidentDaySpan,
+  computeLogDateRange,
+  dayInMs,
+  formatHourLabel,
+  formatIncidentTime,
+  formatUTCDay,
+  getLocationPrecision,
+  Incident,
+  incidentKey,
+  isHourInRange,
+  isImpreciseLocation,
+  isUnknownTime,
+  parseMDYToUTCDate,
+  parseReportDate,
+} from '@/lib/incidents';
+import { computeHotspots, Hotspot } from '@/lib/hotspots';
+import { findNewIncidentKeys, loadLastSeenLogTs, storeLastSeenLogTs } from '@/lib/lastSeen';
+import { fetchAllIncidents } from '@/lib/loadIncidents';
+import { loadSavedPlaces, nightEndHour, nightStartHour, SavedPlace, storeSavedPlaces, summarizePlace } from '@/lib/savedPlaces';
+import { parseStreetGeoJson, StreetLine } from '@/lib/streets';
+import { assignRegionId, buildZipRegions, Region } from '@/lib/regions';
+import {
+  getCategoryColor,
+  getCategoryStyle,
+  getIncidentSeverityLevel,
+  getIncidentStyle,
+  getSeverityOrder,
+  getSeverityWeights,
+  sortCategoriesBySeverity,
+  Taxonomy,
+} from '@/lib/taxonomy';
+import {
+  ApproximateLocation,
+  areaStyle,
+  arrowKeyDirections,
+  CategoryColorMap,
+  coordinateKey,
+  countIncidentsForLegend,
+  DensityWeighting,
+  describeIncident,
+  findNeighborInDirection,
+  getHighestSeverityIncident,
+  groupApproximateLocations,
+  IncidentDetails,
+  MapLegend,
+  MapRendererProps,
+  MapViewState,
+  PlaceDetails,
+  RegionMetric,
+  RegionViewOptions,
+  VisualizationMode,
+} from './mapShared';
+import { SvgMapRenderer } from './SvgMapRenderer';
+
+// Radius options (meters) for the "what's near this address" analysis
+const radiusOptions = [250, 500, 750, 1000, 1500, 2000];
+const defaultRadiusMeters = 500;
+
+// Format a distance for display, e.g. "320 m" or "1.4 km"
+const formatDistance = (meters: number): string => meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+
+// Small 24-bucket bar chart of incidents by hour of day
+function HourlyHistogram({ incidents, startHour, endHour }: { incidents: Incident[], startHour: number, endHour: number }) {
+    const { buckets, unknownCount } = useMemo(() => {
+        const counts = new Array<number>(24).fill(0);
+        let unknown = 0;
+        incidents.forEach(incident => {
+            if (isUnknownTime(incident.time)) {
+                unknown++;
+            } else {
+                counts[Math.floor(incident.time / 60)]++;
+            }
+        });
+        return { buckets: counts, unknownCount: unknown };
+    }, [incidents]);
+
+    const maxCount = Math.max(1, ...buckets);
+
+    return (
+        <div>
+            <div className="flex items-end h-24 gap-px border-b border-gray-300">
+                {buckets.map((count, hour) => (
+                    <div
+                        key={hour}
+                        className={`flex-1 rounded-t-sm ${isHourInRange(hour, startHour, endHour) ? 'bg-indigo-500' : 'bg-gray-300'}`}
+                        style={{ height: `${(count / maxCount) * 100}%` }}
+                        title={`${formatHourLabel(hour)}–${formatHourLabel(hour + 1)}: ${count} incident${count === 1 ? '' : 's'}`}
+                    ></div>
+                ))}
+            </div>
+            <div className="flex justify-between text-[10px] text-gray-500 mt-0.5">
+                <span>00</span><span>06</span><span>12</span><span>18</span><span>24</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+                {unknownCount} incident{unknownCount === 1 ? '' : 's'} with unknown time not shown in chart.
+            </p>
+        </div>
+    );
+}
+
+// --- Marker Clustering Helpers ---
+
+// Above this zoom, only incidents at identical coordinates are grouped
+const clusterMaxZoom = 17;
+// Size of the clustering grid in screen pixels
+const clusterCellSize = 56;
+
+interface IncidentCluster {
+    key: string;
+    position: LatLngLiteral;
+    incidents: Incident[];
+    colocated: boolean; // All incidents share the exact same coordinates (zooming in won't separate them)
+}
+
+// Group incidents into screen-space grid cells for the given zoom.
+// Past clusterMaxZoom, only incidents at identical coordinates are grouped so they can be spiderfied.
+const clusterIncidents = (incidents: Incident[], zoom: number): IncidentCluster[] => {
+    const roundedZoom = Math.round(zoom);
+    const groups: { [key: string]: Incident[] } = {};
+
+    incidents.forEach(incident => {
+        let key: string;
+        if (roundedZoom >= clusterMaxZoom) {
+            key = `loc:${coordinateKey(incident)}`;
+        } else {
+            const { x, y } = projectToWorld({ lat: incident.latitude, lng: incident.longitude }, roundedZoom);
+            key = `cell:${roundedZoom}:${Math.floor(x / clusterCellSize)}:${Math.floor(y / clusterCellSize)}`;
+        }
+        (groups[key] ||= []).push(incident);
+    });
+
+    return Object.entries(groups).map(([key, members]) => {
+        const lat = members.reduce((sum, incident) => sum + incident.latitude, 0) / members.length;
+        const lng = members.reduce((sum, incident) => sum + incident.longitude, 0) / members.length;
+        const firstCoordinate = coordinateKey(members[0]);
+        return {
+            key,
+            position: { lat, lng },
+            incidents: members,
+            colocated: members.every(incident => coordinateKey(incident) === firstCoordinate),
+        };
+    });
+};
+
+// Fan positions around a center point: a circle for small groups, a spiral for larger ones
+const spiderfyPositions = (center: LatLngLiteral, count: number, zoom: number): LatLngLiteral[] => {
+    const origin = projectToWorld(center, zoom);
+    const offsets: { x: number, y: number }[] = [];
+    const spacing = 28; // Pixels between neighbouring markers
+
+    if (count <= 8) {
+        const radius = Math.max(30, (spacing * count) / (2 * Math.PI));
+        for (let i = 0; i < count; i++) {
+            const angle = (2 * Math.PI * i) / count - Math.PI / 2;
+            offsets.push({ x: radius * Math.cos(angle), y: radius * Math.sin(angle) });
+        }
+    } else {
+        let angle = 0;
+        for (let i = 0; i < count; i++) {
+            const radius = 30 + 5 * angle;
+            offsets.push({ x: radius * Math.cos(angle), y: radius * Math.sin(angle) });
+            angle += spacing / radius;
+        }
+    }
+
+    return offsets.map(offset => unprojectFromWorld({ x: origin.x + offset.x, y: origin.y + offset.y }, zoom));
+};
+
+// Draws the connector lines from a spiderfied group's true location to each fanned marker
+function SpiderLegs({ center, positions }: { center: LatLngLiteral, positions: LatLngLiteral[] }) {
+    const map = useMap();
+
+    useEffect(() => {
+        if (!map) return;
+        const legs = positions.map(position => new google.maps.Polyline({
+            map,
+            path: [center, position],
+            clickable: false,
+            strokeColor: '#374151',
+            strokeOpacity: 0.7,
+            strokeWeight: 1.5,
+        }));
+        return () => legs.forEach(leg => leg.setMap(null));
+    }, [map, center, positions]);
+
+    return null;
 }
 
-// Define type for search result position
-interface LatLngLiteral {
-    lat: number;
-    lng: number;
+// --- Density (Hex-Bin) Helpers ---
+// Screen-space radius of a hex cell in pixels (center to corner)
+const hexRadius = 22;
+
+// Sequential color ramp from low to high density
+const densityColorStops = ['#FEF3C7', '#FCD34D', '#F59E0B', '#DC2626', '#7F1D1D'];
+
+interface HexCell {
+    key: string;
+    path: LatLngLiteral[];
+    count: number;
+    value: number;
 }
 
-// Define approximate bounds for Palo Alto for search biasing
-const paloAltoBounds: google.maps.LatLngBoundsLiteral = {
-    north: 37.47, // Approx North lat
-    south: 37.39, // Approx South lat
-    east: -122.07, // Approx East lng
-    west: -122.20  // Approx West lng
+// Interpolate the density color ramp for a value in [0, 1]
+const densityColor = (t: number): string => {
+    const clamped = Math.min(Math.max(t, 0), 1) * (densityColorStops.length - 1);
+    const i = Math.min(Math.floor(clamped), densityColorStops.length - 2);
+    const frac = clamped - i;
+    const from = parseInt(densityColorStops[i].slice(1), 16);
+    const to = parseInt(densityColorStops[i + 1].slice(1), 16);
+    const channel = (shift: number) => Math.round(((from >> shift) & 255) + (((to >> shift) & 255) - ((from >> shift) & 255)) * frac);
+    return `rgb(${channel(16)}, ${channel(8)}, ${channel(0)})`;
+};
+
+// Bin incidents into pointy-top hexagons laid out in world pixel space at the given zoom
+const computeHexBins = (incidents: Incident[], zoom: number, weighting: DensityWeighting, taxonomy: Taxonomy): { cells: HexCell[], maxValue: number } => {
+    const roundedZoom = Math.round(zoom);
+    const sqrt3 = Math.sqrt(3);
+    const bins: { [key: string]: { q: number, r: number, count: number, value: number } } = {};
+
+    incidents.forEach(incident => {
+        const { x, y } = projectToWorld({ lat: incident.latitude, lng: incident.longitude }, roundedZoom);
+        // Fractional axial coordinates, then cube rounding to the containing hex
+        const fq = ((sqrt3 / 3) * x - y / 3) / hexRadius;
+        const fr = ((2 / 3) * y) / hexRadius;
+        const fs = -fq - fr;
+        let q = Math.round(fq);
+        let r = Math.round(fr);
+        const s = Math.round(fs);
+        const dq = Math.abs(q - fq), dr = Math.abs(r - fr), ds = Math.abs(s - fs);
+        if (dq > dr && dq > ds) q = -r - s;
+        else if (dr > ds) r = -q - s;
+
+        const key = `${q}:${r}`;
+        const weight = weighting === 'severity' ? getSeverityWeights(taxonomy)[getIncidentSeverityLevel(incident, taxonomy)] ?? 1 : 1;
+        const bin = (bins[key] ||= { q, r, count: 0, value: 0 });
+        bin.count++;
+        bin.value += weight;
+    });
+
+    let maxValue = 0;
+    const cells = Object.entries(bins).map(([key, bin]) => {
+        maxValue = Math.max(maxValue, bin.value);
+        const centerX = hexRadius * sqrt3 * (bin.q + bin.r / 2);
+        const centerY = hexRadius * 1.5 * bin.r;
+        const path = Array.from({ length: 6 }, (_, i) => {
+            const angle = (Math.PI / 180) * (60 * i - 30);
+            return unprojectFromWorld({ x: centerX + hexRadius * Math.cos(angle), y: centerY + hexRadius * Math.sin(angle) }, roundedZoom);
+        });
+        return { key, path, count: bin.count, value: bin.value };
+    });
+
+    return { cells, maxValue };
 };
 
-// Define type for selected place details
-interface PlaceDetails {
-    name: string;
-    formattedAddress: string;
+// Approximate width of a hex cell in meters at the given zoom and latitude
+const hexWidthInMeters = (zoom: number, lat: number): number => {
+    const metersPerPixel = (156543.03392 * Math.cos((lat * Math.PI) / 180)) / 2 ** Math.round(zoom);
+    return Math.sqrt(3) * hexRadius * metersPerPixel;
+};
+
+// Draws the hex-bin density cells as polygons on the parent map
+function DensityLayer({ cells, maxValue }: { cells: HexCell[], maxValue: number }) {
+    const map = useMap();
+
+    useEffect(() => {
+        if (!map) return;
+        const polygons = cells.map(cell => new google.maps.Polygon({
+            map,
+            paths: cell.path,
+            clickable: false,
+            strokeColor: '#FFFFFF',
+            strokeOpacity: 0.6,
+            strokeWeight: 1,
+            fillColor: densityColor(maxValue > 0 ? cell.value / maxValue : 0),
+            fillOpacity: 0.65,
+        }));
+        return () => polygons.forEach(polygon => polygon.setMap(null));
+    }, [map, cells, maxValue]);
+
+    return null;
 }
 
-// --- NEW: Type for Category Color Map ---
-interface CategoryColorMap {
-    [key: string]: string;
+// --- Region (ZIP) Choropleth ---
+interface RegionStats {
+    total: number;
+    byCategory: { [category: string]: number };
+    bySeverity: { [severity: string]: number };
 }
 
+// Value a region is shaded by
+const regionValue = (stats: RegionStats | undefined, options: RegionViewOptions): number => {
+    if (!stats) return 0;
+    const count = options.category ? stats.byCategory[options.category] ?? 0 : stats.total;
+    if (options.metric === 'share') return stats.total > 0 ? Math.round((count / stats.total) * 100) : 0;
+    return count;
+};
+
+// Draws the regions as shaded polygons on the parent map; clicking one reports it with the click position
+function RegionLayer({
+    regions,
+    values,
+    maxValue,
+    selectedRegionId,
+    onSelectRegion,
+}: {
+    regions: Region[],
+    values: { [regionId: string]: number },
+    maxValue: number,
+    selectedRegionId: string | null,
+    onSelectRegion: (regionId: string, position: LatLngLiteral) => void,
+}) {
+    const map = useMap();
+    const onSelectRef = useRef(onSelectRegion);
+
+    useEffect(() => {
+        onSelectRef.current = onSelectRegion;
+    }, [onSelectRegion]);
+
+    useEffect(() => {
+        if (!map) return;
+        const polygons = regions.map(region => {
+            const value = values[region.id] ?? 0;
+            const isSelected = region.id === selectedRegionId;
+            const polygon = new google.maps.Polygon({
+                map,
+                paths: region.paths,
+                strokeColor: isSelected ? '#111827' : '#FFFFFF',
+                strokeOpacity: 0.9,
+                strokeWeight: isSelected ? 3 : 1.5,
+                fillColor: value > 0 ? densityColor(maxValue > 0 ? value / maxValue : 0) : '#E5E7EB',
+                fillOpacity: value > 0 ? 0.6 : 0.3,
+            });
+            polygon.addListener('click', (event: google.maps.PolyMouseEvent) => {
+                if (event.latLng) onSelectRef.current(region.id, event.latLng.toJSON());
+            });
+            return polygon;
+        });
+        return () => polygons.forEach(polygon => {
+            google.maps.event.clearInstanceListeners(polygon);
+            polygon.setMap(null);
+        });
+    }, [map, regions, values, maxValue, selectedRegionId]);
+
+    return null;
+}
+
+// Map overlay for switching between markers, density and regions, with their legends
+function VisualizationControls({
+    mode,
+    onModeChange,
+    weighting,
+    onWeightingChange,
+    maxValue,
+    cellWidthMeters,
+    regionOptions,
+    onRegionOptionsChange,
+    regionCategories,
+    regionMaxValue,
+    unassignedCount,
+    taxonomy,
+}: {
+    mode: VisualizationMode,
+    onModeChange: (mode: VisualizationMode) => void,
+    weighting: DensityWeighting,
+    onWeightingChange: (weighting: DensityWeighting) => void,
+    maxValue: number,
+    cellWidthMeters: number,
+    regionOptions: RegionViewOptions,
+    onRegionOptionsChange: (options: RegionViewOptions) => void,
+    regionCategories: string[],
+    regionMaxValue: number,
+    unassignedCount: number,
+    taxonomy: Taxonomy,
+}) {
+    const modeButtonClass = (active: boolean) =>
+        `px-2 py-1 ${active ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`;
+
+    return (
+        <div className="absolute bottom-2 left-2 z-10 bg-white rounded-md shadow-md border border-gray-300 p-2 text-xs text-gray-800 w-56">
+            <div className="flex rounded-md overflow-hidden border border-gray-300" role="group" aria-label="Map view">
+                <button className={`flex-1 ${modeButtonClass(mode === 'markers')}`} onClick={() => onModeChange('markers')}>Markers</button>
+                <button className={`flex-1 ${modeButtonClass(mode === 'density')}`} onClick={() => onModeChange('density')}>Density</button>
+                <button className={`flex-1 ${modeButtonClass(mode === 'regions')}`} onClick={() => onModeChange('regions')}>Regions</button>
+            </div>
+            {mode === 'density' && (
+                <div className="mt-2">
+                    <label htmlFor="density-weighting" className="block font-medium text-gray-600 mb-0.5">Weighting</label>
+                    <select
+                        id="density-weighting"
+                        value={weighting}
+                        onChange={(e) => onWeightingChange(e.target.value as DensityWeighting)}
+                        className="w-full p-1 border border-gray-300 rounded-md text-xs text-gray-700"
+                    >
+                        <option value="count">Incident count</option>
+                        <option value="severity">Severity-weighted</option>
+                    </select>
+                    <div
+                        className="h-2.5 mt-2 rounded-sm"
+                        style={{ background: `linear-gradient(to right, ${densityColorStops.join(', ')})` }}
+                    ></div>
+                    <div className="flex justify-between text-[10px] text-gray-500 mt-0.5">
+                        <span>0</span>
+                        <span>{maxValue}</span>
+                    </div>
+                    <p className="text-[10px] text-gray-500 mt-1">
+                        {weighting === 'count'
+                            ? 'Incidents per hex'
+                            : `Severity points per hex (${Object.entries(getSeverityWeights(taxonomy)).filter(([severity]) => severity !== 'Default').map(([severity, weight]) => `${severity} ${weight}`).join(', ')})`}
+                        {`, each ~${formatDistance(cellWidthMeters)} across.`}
+                    </p>
+                </div>
+            )}
+            {mode === 'regions' && (
+                <div className="mt-2 space-y-1.5">
+                    <p className="font-medium text-gray-600">
+                        ZIP codes <span className="px-1 rounded bg-amber-100 text-amber-800 text-[10px] font-semibold">Approximate areas</span>
+                    </p>
+                    <div>
+                        <label htmlFor="region-category" className="block font-medium text-gray-600 mb-0.5">Category</label>
+                        <select
+                            id="region-category"
+                            value={regionOptions.category}
+                            onChange={(e) => onRegionOptionsChange({
+                                ...regionOptions,
+                                category: e.target.value,
+                                metric: e.target.value ? regionOptions.metric : 'count',
+                            })}
+                            className="w-full p-1 border border-gray-300 rounded-md text-xs text-gray-700"
+                        >
+                            <option value="">All categories</option>
+                            {regionCategories.map(category => <option key={category} value={category}>{category}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="region-metric" className="block font-medium text-gray-600 mb-0.5">Shade by</label>
+                        <select
+                            id="region-metric"
+                            value={regionOptions.metric}
+                            onChange={(e) => onRegionOptionsChange({ ...regionOptions, metric: e.target.value as RegionMetric })}
+                            className="w-full p-1 border border-gray-300 rounded-md text-xs text-gray-700"
+                        >
+                            <option value="count">Incident count</option>
+                            <option value="share" disabled={!regionOptions.category}>Share of region&apos;s incidents (%)</option>
+                        </select>
+                    </div>
+                    <div
+                        className="h-2.5 rounded-sm"
+                        style={{ background: `linear-gradient(to right, ${densityColorStops.join(', ')})` }}
+                    ></div>
+                    <div className="flex justify-between text-[10px] text-gray-500">
+                        <span>0</span>
+                        <span>{regionMaxValue}{regionOptions.metric === 'share' ? '%' : ''}</span>
+                    </div>
+                    <p className="text-[10px] text-gray-500">
+                        Not official ZIP boundaries: each area is drawn around the incident locations with that ZIP in their address. Click an area for a summary.
+                        {unassignedCount > 0 && ` ${unassignedCount} incident${unassignedCount === 1 ? '' : 's'} without a ZIP ${unassignedCount === 1 ? 'is' : 'are'} not counted.`}
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+}
+
+// Draws a google.maps.Circle on the parent map (the react wrapper has no Circle component)
+function RadiusCircle({ center, radius }: { center: LatLngLiteral, radius: number }) {
+    const map = useMap();
+    const circleRef = useRef<google.maps.Circle | null>(null);
+
+    useEffect(() => {
+        if (!map) return;
+        const circle = new google.maps.Circle({
+            map,
+            clickable: false,
+            strokeColor: '#4F46E5',
+            strokeOpacity: 0.8,
+            strokeWeight: 2,
+            fillColor: '#6366F1',
+            fillOpacity: 0.08,
+        });
+        circleRef.current = circle;
+        return () => {
+            circle.setMap(null);
+            circleRef.current = null;
+        };
+    }, [map]);
+
+    useEffect(() => {
+        circleRef.current?.setCenter(center);
+        circleRef.current?.setRadius(radius);
+    }, [map, center, radius]);
+
+    return null;
+}
+
+// Side panel summarizing incidents within a radius of the pinned search result
+function NearbyIncidentsPanel({
+    placeName,
+    nearbyIncidents,
+    radius,
+    onRadiusChange,
+    categoryColorMap,
+    taxonomy,
+    onSelectIncident,
+    onClear,
+}: {
+    placeName: string,
+    nearbyIncidents: { incident: Incident, distance: number }[],
+    radius: number,
+    onRadiusChange: (radius: number) => void,
+    categoryColorMap: CategoryColorMap,
+    taxonomy: Taxonomy,
+    onSelectIncident: (incident: Incident) => void,
+    onClear: () => void,
+}) {
+    const [isExpanded, setIsExpanded] = useState(true);
+
+    const severityCounts = useMemo(() => {
+        const counts: { [severity: string]: number } = {};
+        nearbyIncidents.forEach(({ incident }) => {
+            const severity = getIncidentSeverityLevel(incident, taxonomy);
+            counts[severity] = (counts[severity] || 0) + 1;
+        });
+        return getSeverityOrder(taxonomy).filter(severity => counts[severity]).map(severity => ({ severity, count: counts[severity] }));
+    }, [nearbyIncidents, taxonomy]);
+
+    const categoryCounts = useMemo(() => {
+        const counts: { [category: string]: number } = {};
+        nearbyIncidents.forEach(({ incident }) => {
+            counts[incident.offense_category] = (counts[incident.offense_category] || 0) + 1;
+        });
+        return Object.entries(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    }, [nearbyIncidents]);
+
+    return (
+        <div className="absolute top-14 right-2 z-10 w-72 max-w-[calc(100%-1rem)] max-h-[calc(60%-4rem)] flex flex-col bg-white rounded-md shadow-md border border-gray-300 text-sm text-gray-800">
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="w-full p-2 text-left font-semibold flex items-center hover:bg-gray-50 focus:outline-none"
+            >
+                <span className="mr-2">{isExpanded ? '▲' : '▼'}</span>
+                <span className="truncate">Near {placeName}</span>
+            </button>
+            {isExpanded && (
+                <div className="px-2 pb-2 border-t border-gray-200 overflow-y-auto">
+                    <div className="flex items-center justify-between mt-2">
+                        <label htmlFor="nearby-radius" className="font-medium text-gray-600">Radius</label>
+                        <span className="text-gray-700">{formatDistance(radius)}</span>
+                    </div>
+                    <input
+                        id="nearby-radius"
+                        type="range"
+                        min={0}
+                        max={radiusOptions.length - 1}
+                        step={1}
+                        value={Math.max(0, radiusOptions.indexOf(radius))}
+                        onChange={(e) => onRadiusChange(radiusOptions[parseInt(e.target.value, 10)])}
+                        className="w-full accent-indigo-600"
+                    />
+                    <p className="mt-1 font-medium">
+                        {nearbyIncidents.length} incident{nearbyIncidents.length === 1 ? '' : 's'} within {formatDistance(radius)}
+                        <span className="font-normal text-xs text-gray-500"> (active filters applied)</span>
+                    </p>
+
+                    {severityCounts.length > 0 && (
+                        <div className="mt-2">
+                            <h4 className="text-xs font-semibold uppercase text-gray-500 mb-1">By Severity</h4>
+                            <ul className="space-y-0.5">
+                                {severityCounts.map(({ severity, count }) => (
+                                    <li key={severity} className="flex justify-between"><span>{severity}</span><span>{count}</span></li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {categoryCounts.length > 0 && (
+                        <div className="mt-2">
+                            <h4 className="text-xs font-semibold uppercase text-gray-500 mb-1">By Category</h4>
+                            <ul className="space-y-0.5">
+                                {categoryCounts.map(([category, count]) => (
+                                    <li key={category} className="flex items-center">
+                                        <span className="w-3 h-3 rounded-sm mr-2 inline-block flex-shrink-0" style={{ backgroundColor: categoryColorMap[category] || '#9CA3AF' }}></span>
+                                        <span className="flex-grow break-words">{category}</span>
+                                        <span>{count}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {nearbyIncidents.length > 0 && (
+                        <div className="mt-2">
+                            <h4 className="text-xs font-semibold uppercase text-gray-500 mb-1">Closest First</h4>
+                            <ul className="divide-y divide-gray-100">
+                                {nearbyIncidents.map(({ incident, distance }) => (
+                                    <li key={incidentKey(incident)}>
+                                        <button
+                                            onClick={() => onSelectIncident(incident)}
+                                            className="w-full text-left py-1 hover:bg-gray-50 focus:outline-none"
+                                        >
+                                            <span className="flex justify-between">
+                                                <span className="font-medium truncate mr-2">{incident.offense_type}</span>
+                                                <span className="text-gray-500 flex-shrink-0">{formatDistance(distance)}</span>
+                                            </span>
+                                            <span className="block text-xs text-gray-500">{incident.date} · {formatIncidentTime(incident.time)} · {incident.offense_category}</span>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    <button onClick={onClear} className="mt-2 text-xs text-blue-600 hover:underline">
+                        Clear searched place
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+// --- Drawn Area Filters ---
+// Areas are drawn with plain map clicks and edited with google.maps.Polygon/Rectangle handles,
+// so the deprecated Drawing library isn't needed.
+type AreaDrawingMode = 'rectangle' | 'polygon';
+
+const formatAreaKind = (area: DrawnArea): string => area.kind === 'rectangle' ? 'Rectangle' : `Polygon (${area.path.length} points)`;
+
+// Draws one area on the parent map. While editing, dragging its handles reports the new shape through onChange.
+function DrawnAreaShape({
+    area,
+    isEditing,
+    isDrawing,
+    onSelect,
+    onChange,
+}: {
+    area: DrawnArea,
+    isEditing: boolean,
+    isDrawing: boolean,
+    onSelect: () => void,
+    onChange: (area: DrawnArea) => void,
+}) {
+    const map = useMap();
+    const shapeRef = useRef<google.maps.Rectangle | google.maps.Polygon | null>(null);
+    // Set while the shape is updated from props, so the resulting change events aren't echoed back
+    const isSyncingRef = useRef(false);
+    const callbacksRef = useRef({ onSelect, onChange });
+    // Latest geometry, for creating the shape; later changes are applied by the sync effect below
+    const areaRef = useRef(area);
+
+    useEffect(() => {
+        callbacksRef.current = { onSelect, onChange };
+    }, [onSelect, onChange]);
+
+    useEffect(() => {
+        areaRef.current = area;
+    }, [area]);
+
+    // The shape is created once per kind
+    const { kind } = area;
+    useEffect(() => {
+        if (!map) return;
+        const listeners: google.maps.MapsEventListener[] = [];
+        let shape: google.maps.Rectangle | google.maps.Polygon;
+        const initialArea = areaRef.current;
+
+        if (initialArea.kind === 'rectangle') {
+            const rectangle = new google.maps.Rectangle({ map, bounds: initialArea.bounds, ...areaStyle });
+            listeners.push(rectangle.addListener('bounds_changed', () => {
+                const bounds = rectangle.getBounds();
+                if (bounds && !isSyncingRef.current) callbacksRef.current.onChange({ kind: 'rectangle', bounds: bounds.toJSON() });
+            }));
+            shape = rectangle;
+        } else {
+            const polygon = new google.maps.Polygon({ map, paths: initialArea.path, ...areaStyle });
+            const path = polygon.getPath();
+            const reportPath = () => {
+                if (!isSyncingRef.current) callbacksRef.current.onChange({ kind: 'polygon', path: path.getArray().map(point => point.toJSON()) });
+            };
+            ['set_at', 'insert_at', 'remove_at'].forEach(eventName => listeners.push(path.addListener(eventName, reportPath)));
+            shape = polygon;
+        }
+        listeners.push(shape.addListener('click', () => callbacksRef.current.onSelect()));
+        shapeRef.current = shape;
+
+        return () => {
+            listeners.forEach(listener => listener.remove());
+            shape.setMap(null);
+            shapeRef.current = null;
+        };
+    }, [map, kind]);
+
+    // Apply geometry changes that came from outside the shape (e.g. the URL), skipping ones it reported itself
+    useEffect(() => {
+        const shape = shapeRef.current;
+        if (!shape) return;
+        isSyncingRef.current = true;
+        if (area.kind === 'rectangle' && shape instanceof google.maps.Rectangle) {
+            const current = shape.getBounds()?.toJSON();
+            if (!current || formatAreaParam({ kind: 'rectangle', bounds: current }) !== formatAreaParam(area)) shape.setBounds(area.bounds);
+        } else if (area.kind === 'polygon' && shape instanceof google.maps.Polygon) {
+            const path = shape.getPath();
+            const current = path.getArray().map(point => point.toJSON());
+            if (formatAreaParam({ kind: 'polygon', path: current }) !== formatAreaParam(area)) {
+                path.clear();
+                area.path.forEach(point => path.push(new google.maps.LatLng(point)));
+            }
+        }
+        isSyncingRef.current = false;
+    }, [area]);
+
+    useEffect(() => {
+        shapeRef.current?.setOptions({
+            editable: isEditing,
+            // Let clicks fall through to the map while another area is being drawn
+            clickable: !isDrawing,
+            strokeWeight: isEditing ? 3 : areaStyle.strokeWeight,
+            fillOpacity: isEditing ? 0.18 : areaStyle.fillOpacity,
+        });
+    }, [map, area.kind, isEditing, isDrawing]);
+
+    return null;
+}
+
+// Outline of the polygon being drawn
+function DraftAreaLine({ points }: { points: LatLngLiteral[] }) {
+    const map = useMap();
+
+    useEffect(() => {
+        if (!map || points.length === 0) return;
+        const line = new google.maps.Polyline({
+            map,
+            path: points,
+            clickable: false,
+            strokeColor: areaStyle.strokeColor,
+            strokeOpacity: 0.9,
+            strokeWeight: 2,
+        });
+        return () => line.setMap(null);
+    }, [map, points]);
+
+    return null;
+}
+
+// Map overlay for drawing, editing and removing area filters
+function AreaControls({
+    areas,
+    areaCounts,
+    drawingMode,
+    draftPointCount,
+    editingAreaIndex,
+    onStartDrawing,
+    onFinishDrawing,
+    onUndoPoint,
+    onCancelDrawing,
+    onEditArea,
+    onRemoveArea,
+    onClearAreas,
+}: {
+    areas: DrawnArea[],
+    areaCounts: number[],
+    drawingMode: AreaDrawingMode | null,
+    draftPointCount: number,
+    editingAreaIndex: number | null,
+    onStartDrawing: (mode: AreaDrawingMode) => void,
+    onFinishDrawing: () => void,
+    onUndoPoint: () => void,
+    onCancelDrawing: () => void,
+    onEditArea: (index: number | null) => void,
+    onRemoveArea: (index: number) => void,
+    onClearAreas: () => void,
+}) {
+    const buttonClass = 'px-2 py-1 rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-100 disabled:opacity-50';
+
+    return (
+        <div className="absolute top-14 left-2 z-10 w-56 max-w-[calc(100%-1rem)] bg-white rounded-md shadow-md border border-gray-300 p-2 text-xs text-gray-800">
+            <p className="font-semibold mb-1">Area filter</p>
+            {drawingMode === null ? (
+                <div className="flex gap-1.5">
+                    <button className={buttonClass} onClick={() => onStartDrawing('rectangle')}>▭ Rectangle</button>
+                    <button className={buttonClass} onClick={() => onStartDrawing('polygon')}>⬠ Polygon</button>
+                </div>
+            ) : (
+                <div>
+                    <p className="text-gray-600">
+                        {drawingMode === 'rectangle'
+                            ? (draftPointCount === 0 ? 'Click one corner of the rectangle.' : 'Click the opposite corner.')
+                            : `Click to add points (${draftPointCount} so far), then Finish.`}
+                        {' '}Esc cancels.
+                    </p>
+                    <div className="flex gap-1.5 mt-1">
+                        {drawingMode === 'polygon' && (
+                            <>
+                                <button className={buttonClass} onClick={onFinishDrawing} disabled={draftPointCount < 3}>Finish</button>
+                                <button className={buttonClass} onClick={onUndoPoint} disabled={draftPointCount === 0}>Undo</button>
+                            </>
+                        )}
+                        <button className={buttonClass} onClick={onCancelDrawing}>Cancel</button>
+                    </div>
+                </div>
+            )}
+            {areas.length > 0 && (
+                <div className="mt-2 border-t border-gray-200 pt-1.5">
+                    <ul className="space-y-1">
+                        {areas.map((area, i) => (
+                            <li key={i} className={`flex items-center rounded px-1 ${editingAreaIndex === i ? 'bg-violet-50' : ''}`}>
+                                <span className="flex-grow">
+                                    Area {i + 1} <span className="text-gray-500">· {formatAreaKind(area)}</span>
+                                    <span className="block text-gray-600">{areaCounts[i] ?? 0} incident{areaCounts[i] === 1 ? '' : 's'}</span>
+                                </span>
+                                <button
+                                    className="text-blue-600 hover:underline mr-2"
+                                    onClick={() => onEditArea(editingAreaIndex === i ? null : i)}
+                                >
+                                    {editingAreaIndex === i ? 'Done' : 'Edit'}
+                                </button>
+                                <button className="text-red-600 hover:text-red-800" onClick={() => onRemoveArea(i)} aria-label={`Remove area ${i + 1}`}>✕</button>
+                            </li>
+                        ))}
+                    </ul>
+                    <button className="mt-1.5 text-blue-600 hover:underline" onClick={onClearAreas}>Clear all areas</button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+// --- Approximate Locations ---
+// Grouped by groupApproximateLocations (mapShared.tsx), which the SVG renderer uses as well
+// Draws the approximate areas on the parent map: highlighted street lines or translucent circles
+function ApproximateLocationLayer({ locations }: { locations: ApproximateLocation[] }) {
+    const map = useMap();
+
+    useEffect(() => {
+        if (!map) return;
+        const shapes: (google.maps.Circle | google.maps.Polyline)[] = [];
+        locations.forEach(location => {
+            if (location.streets.length > 0) {
+                location.streets.forEach(street => shapes.push(new google.maps.Polyline({
+                    map,
+                    path: street.path,
+                    clickable: false,
+                    strokeColor: location.color,
+                    strokeOpacity: 0.4,
+                    strokeWeight: 8,
+                })));
+            } else {
+                shapes.push(new google.maps.Circle({
+                    map,
+                    center: location.position,
+                    radius: location.radius,
+                    clickable: false,
+                    strokeColor: location.color,
+                    strokeOpacity: 0.7,
+                    strokeWeight: 1.5,
+                    fillColor: location.color,
+                    fillOpacity: 0.12,
+                }));
+            }
+        });
+        return () => shapes.forEach(shape => shape.setMap(null));
+    }, [map, locations]);
+
+    return null;
+}
+
+// --- Keyboard and Screen-Reader Access ---
+// Incident markers can be reached with Tab, opened with Enter, and the arrow keys move to the nearest marker
+// in that direction. The same incidents are also listed as plain buttons below the map.
+
+// Most incidents listed in the accessible incident list
+const accessibleListLimit = 200;
+
+// The displayed incidents inside the map viewport as a list of buttons, newest first; choosing one opens it on the map
+function AccessibleIncidentList({
+    incidents,
+    taxonomy,
+    categoryColorMap,
+    selectedIncidentKey,
+    newIncidentKeys,
+    onSelectIncident,
+}: {
+    incidents: Incident[],
+    taxonomy: Taxonomy,
+    categoryColorMap: CategoryColorMap,
+    selectedIncidentKey: string | null,
+    newIncidentKeys: Set<string>,
+    onSelectIncident: (incident: Incident) => void,
+}) {
+    const sorted = useMemo(
+        () => [...incidents].sort((a, b) => compareIncidentsBy(b, a, 'date') || compareIncidentsBy(b, a, 'time')).slice(0, accessibleListLimit),
+        [incidents]
+    );
+
+    if (incidents.length === 0) {
+        return <p className="p-3 text-sm text-gray-500">No incidents in the current map view.</p>;
+    }
+
+    return (
+        <div>
+            {incidents.length > sorted.length && (
+                <p className="px-3 pt-2 text-xs text-gray-500">
+                    Showing the {sorted.length} newest of {incidents.length} incidents in view. Zoom in or narrow the filters to list the rest.
+                </p>
+            )}
+            <ul className="max-h-72 overflow-y-auto divide-y divide-gray-100 text-sm">
+                {sorted.map(incident => {
+                    const key = incidentKey(incident);
+                    const isNew = newIncidentKeys.has(key);
+                    return (
+                        <li key={key}>
+                            <button
+                                type="button"
+                                onClick={() => onSelectIncident(incident)}
+                                aria-current={key === selectedIncidentKey ? 'true' : undefined}
+                                aria-label={describeIncident(incident, taxonomy, isNew)}
+                                className={`w-full px-3 py-1.5 text-left flex items-center hover:bg-indigo-50 focus:outline-none focus:bg-indigo-50 focus:ring-2 focus:ring-inset focus:ring-indigo-500 ${key === selectedIncidentKey ? 'bg-indigo-50' : ''}`}
+                            >
+                                <span className="w-2.5 h-2.5 rounded-full mr-2 flex-shrink-0" style={{ backgroundColor: categoryColorMap[incident.offense_category] || '#9CA3AF' }}></span>
+                                <span className="flex-grow min-w-0 truncate text-gray-800">
+                                    {incident.offense_type}
+                                    <span className="text-gray-500"> · {incident.formatted_address || incident.location}</span>
+                                </span>
+                                {isNew && <span className="ml-2 px-1 rounded bg-cyan-600 text-white text-[10px] font-bold">New</span>}
+                                <span className="ml-2 text-xs text-gray-500 whitespace-nowrap">{incident.date} {formatIncidentTime(incident.time)}</span>
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+}
+
+// --- Map Renderers ---
+// The Google Maps renderer (MapContent) is used when an API key is set; otherwise SvgMapRenderer (SvgMapRenderer.tsx)
+// draws a simplified map so the app still works offline, in CI and in screenshot tests.
+
 // Inner component to use the useMap hook - MODIFIED Props
-function MapContent({ incidentsToDisplay, categoryColorMap }: { incidentsToDisplay: Incident[], categoryColorMap: CategoryColorMap }) {
+function MapContent({
+  dataSource,
+  incidentsToDisplay,
+  categoryColorMap,
+  initialViewState,
+  onViewStateChange,
+  selectedIncidentKey,
+  onSelectedIncidentKeyChange: setSelectedIncidentKey,
+  focusRequest,
+  legendCategories,
+  selectedCategories,
+  onSelectedCategoriesChange,
+  savedPlaces,
+  onSavePlace,
+  placeFocusRequest,
+  boundsFocusRequest,
+  areas,
+  onAreasChange,
+  zipRegions,
+  newIncidentKeys,
+  locationFilter,
+  streets,
+  onViewportBoundsChange,
+}: MapRendererProps) {
   const map = useMap();
-  const [selectedIncidentIndex, setSelectedIncidentIndex] = useState<number | null>(null);
-  const [searchResultPosition, setSearchResultPosition] = useState<LatLngLiteral | null>(null);
+  const { taxonomy } = dataSource;
+  const [searchResultPosition, setSearchResultPosition] = useState<LatLngLiteral | null>(initialViewState.place?.position ?? null);
   // State to hold details of the *currently selected* place for InfoWindow visibility
   const [selectedPlaceDetails, setSelectedPlaceDetails] = useState<PlaceDetails | null>(null);
   // State to hold details of the *last successfully searched* place for the marker
-  const [pinnedPlaceDetails, setPinnedPlaceDetails] = useState<PlaceDetails | null>(null); 
+  const [pinnedPlaceDetails, setPinnedPlaceDetails] = useState<PlaceDetails | null>(
+    initialViewState.place ? { name: initialViewState.place.name, formattedAddress: initialViewState.place.formattedAddress } : null
+  ); 
+  const [nearbyRadius, setNearbyRadius] = useState(initialViewState.radius);
+  const [zoom, setZoom] = useState(initialViewState.zoom);
+  const [center, setCenter] = useState<LatLngLiteral>(initialViewState.center);
+  const [viewportBounds, setViewportBounds] = useState<BoundsLiteral | null>(null);
+  // Area drawing: the shape being drawn, its clicked points so far, and which finished area shows edit handles
+  const [areaDrawingMode, setAreaDrawingMode] = useState<AreaDrawingMode | null>(null);
+  const [draftAreaPoints, setDraftAreaPoints] = useState<LatLngLiteral[]>([]);
+  const [editingAreaIndex, setEditingAreaIndex] = useState<number | null>(null);
+  // Key of the co-located group currently fanned out, if any
+  const [spiderfiedClusterKey, setSpiderfiedClusterKey] = useState<string | null>(null);
+  const [visualizationMode, setVisualizationMode] = useState<VisualizationMode>(initialViewState.mode);
+  const [densityWeighting, setDensityWeighting] = useState<DensityWeighting>(initialViewState.weighting);
+  const [regionOptions, setRegionOptions] = useState<RegionViewOptions>(initialViewState.regions);
+  const [selectedRegion, setSelectedRegion] = useState<{ id: string, position: LatLngLiteral } | null>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
+  // Rendered incident and cluster markers by key, for arrow-key navigation and returning focus after the pop-up closes
+  const markerElementsRef = useRef<{ [key: string]: { element: HTMLElement, position: LatLngLiteral } }>({});
 
   const incidents = incidentsToDisplay;
-  const selectedIncident = selectedIncidentIndex !== null ? incidents[selectedIncidentIndex] : null;
-
-  // Function to generate PDF link based on incident date
-  const generatePdfLink = (incident: Incident): string => {
-    try {
-      // First try to use the police_record_date_str from the data if available
-      if (incident.police_record_date_str) {
-        // It's already in the format we need (e.g., "april-07-2025")
-        return `https://www.paloalto.gov/files/assets/public/v/2/police-department/public-information-portal/police-report-log/${incident.police_record_date_str}-police-report-log.pdf`;
+  const selectedIncident = useMemo(
+    () => selectedIncidentKey !== null ? incidents.find(incident => incidentKey(incident) === selectedIncidentKey) ?? null : null,
+    [incidents, selectedIncidentKey]
+  );
+
+  const clusters = useMemo(() => clusterIncidents(incidents, zoom), [incidents, zoom]);
+
+  const approximateLocations = useMemo(
+    () => locationFilter === 'areas' ? groupApproximateLocations(incidents, streets, taxonomy) : [],
+    [locationFilter, incidents, streets, taxonomy]
+  );
+
+  // Fanned-out positions for the spiderfied group, keyed by incident key
+  const spiderfied = useMemo(() => {
+    const cluster = clusters.find(c => c.key === spiderfiedClusterKey);
+    if (!cluster) return null;
+    const positions = spiderfyPositions(cluster.position, cluster.incidents.length, zoom);
+    const positionByKey: { [key: string]: LatLngLiteral } = {};
+    cluster.incidents.forEach((incident, i) => { positionByKey[incidentKey(incident)] = positions[i]; });
+    return { cluster, positions, positionByKey };
+  }, [clusters, spiderfiedClusterKey, zoom]);
+
+  const densityBins = useMemo(
+    () => visualizationMode === 'density' ? computeHexBins(incidents, zoom, densityWeighting, taxonomy) : { cells: [], maxValue: 0 },
+    [visualizationMode, incidents, zoom, densityWeighting, taxonomy]
+  );
+
+  // Region view: incidents grouped by the ZIP in their address
+  const regionView = useMemo(() => {
+    if (visualizationMode !== 'regions') return null;
+    const stats: { [regionId: string]: RegionStats } = {};
+    let unassignedCount = 0;
+    incidents.forEach(incident => {
+      const regionId = assignRegionId(incident);
+      if (!regionId) {
+        unassignedCount++;
+        return;
       }
-      
-      // Fall back to parsing the incident.date if police_record_date_str is not available
-      // Parse the date string (assuming format like "Jan 1, 2024")
-      const date = new Date(incident.date);
-      
-      // Format the date to match the PDF URL format
-      const month = date.toLocaleString('en-US', { month: 'long' }).toLowerCase();
-      const day = String(date.getDate()).padStart(2, '0'); // Ensure two digits for day
-      const year = date.getFullYear();
-      
-      // Construct the date string like "april-07-2024"
-      const formattedDateStr = `${month}-${day}-${year}`;
-      
-      // Create the URL in the format shown in the example
-      return `https://www.paloalto.gov/files/assets/public/v/2/police-department/public-information-portal/police-report-log/${formattedDateStr}-police-report-log.pdf`;
-    } catch (error) {
-      // In case of any parsing errors, return the main police log page
-      console.error("Error generating PDF link:", error);
-      return "https://www.paloalto.gov/Departments/Police/Public-Information-Portal/Police-Report-Log";
+      const entry = (stats[regionId] ||= { total: 0, byCategory: {}, bySeverity: {} });
+      entry.total++;
+      entry.byCategory[incident.offense_category] = (entry.byCategory[incident.offense_category] || 0) + 1;
+      const severity = getIncidentSeverityLevel(incident, taxonomy);
+      entry.bySeverity[severity] = (entry.bySeverity[severity] || 0) + 1;
+    });
+    const values: { [regionId: string]: number } = {};
+    zipRegions.forEach(region => { values[region.id] = regionValue(stats[region.id], regionOptions); });
+    return { regions: zipRegions, stats, values, maxValue: Math.max(0, ...Object.values(values)), unassignedCount };
+  }, [visualizationMode, regionOptions, zipRegions, incidents, taxonomy]);
+
+  const selectedRegionDetails = selectedRegion && regionView
+    ? { region: regionView.regions.find(region => region.id === selectedRegion.id), stats: regionView.stats[selectedRegion.id] }
+    : null;
+
+  const selectedIncidentPosition = selectedIncident
+    ? spiderfied?.positionByKey[incidentKey(selectedIncident)] ?? { lat: selectedIncident.latitude, lng: selectedIncident.longitude }
+    : null;
+
+  // Counts of the displayed incidents inside the viewport, for the legend
+  const countsInView = useMemo(
+    () => countIncidentsForLegend(incidents, viewportBounds, taxonomy),
+    [incidents, viewportBounds, taxonomy]
+  );
+
+  // Displayed incidents inside each drawn area (they are already limited to the union of all areas)
+  const areaCounts = useMemo(
+    () => areas.map(area => incidents.filter(incident => isInArea({ lat: incident.latitude, lng: incident.longitude }, area)).length),
+    [areas, incidents]
+  );
+
+  const stopDrawingArea = () => {
+    setAreaDrawingMode(null);
+    setDraftAreaPoints([]);
+  };
+
+  const addArea = (area: DrawnArea) => {
+    onAreasChange([...areas, area]);
+    stopDrawingArea();
+  };
+
+  // Record a map click while drawing; a rectangle is complete after its second corner
+  const handleDrawingClick = (point: LatLngLiteral) => {
+    if (areaDrawingMode === 'rectangle' && draftAreaPoints.length === 1) {
+      const [corner] = draftAreaPoints;
+      addArea({
+        kind: 'rectangle',
+        bounds: {
+          south: Math.min(corner.lat, point.lat), north: Math.max(corner.lat, point.lat),
+          west: Math.min(corner.lng, point.lng), east: Math.max(corner.lng, point.lng),
+        },
+      });
+      return;
     }
+    setDraftAreaPoints(prev => [...prev, point]);
   };
 
+  // Escape cancels drawing
+  useEffect(() => {
+    if (!areaDrawingMode) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setAreaDrawingMode(null);
+        setDraftAreaPoints([]);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [areaDrawingMode]);
+
+  // Incidents (already filtered) within the radius of the searched place, closest first
+  const nearbyIncidents = useMemo(() => {
+    if (!searchResultPosition) return [];
+    return incidents
+      .map(incident => ({ incident, distance: distanceInMeters(searchResultPosition, { lat: incident.latitude, lng: incident.longitude }) }))
+      .filter(({ distance }) => distance <= nearbyRadius)
+      .sort((a, b) => a.distance - b.distance);
+  }, [incidents, searchResultPosition, nearbyRadius]);
+
+  // Make a place the searched place: pin it, open its InfoWindow and pan to it
+  const showPlace = useCallback((details: PlaceDetails, position: LatLngLiteral) => {
+    setSearchResultPosition(position);
+    // Store details for the persistent marker
+    setPinnedPlaceDetails(details);
+    // Set details for immediate InfoWindow opening
+    setSelectedPlaceDetails(details);
+    // Close incident info window
+    setSelectedIncidentKey(null);
+    map?.panTo(position);
+  }, [map, setSelectedIncidentKey]);
+
+  const isPinnedPlaceSaved = !!searchResultPosition && savedPlaces.some(place => isSamePosition(place.position, searchResultPosition));
+
   // Initialize Autocomplete
   useEffect(() => {
     if (!map || !searchInputRef.current || !window.google || !window.google.maps.places) {
@@ -100,7 +1138,7 @@ function MapContent({ incidentsToDisplay, categoryColorMap }: { incidentsToDispl
 
     const autocomplete = new google.maps.places.Autocomplete(searchInputRef.current, {
         fields: ["geometry", "name", "formatted_address"],
-        bounds: paloAltoBounds,
+        bounds: dataSource.bounds,
         strictBounds: false,
         componentRestrictions: { country: 'us' }
     });
@@ -112,15 +1150,7 @@ function MapContent({ incidentsToDisplay, categoryColorMap }: { incidentsToDispl
                 lat: place.geometry.location.lat(),
                 lng: place.geometry.location.lng()
             };
-            const newPlaceDetails = { name: place.name, formattedAddress: place.formatted_address };
-            setSearchResultPosition(newPos);
-            // Store details for the persistent marker
-            setPinnedPlaceDetails(newPlaceDetails);
-            // Set details for immediate InfoWindow opening
-            setSelectedPlaceDetails(newPlaceDetails);
-            // Close incident info window
-            setSelectedIncidentIndex(null);
-            map.panTo(newPos);
+            showPlace({ name: place.name, formattedAddress: place.formatted_address }, newPos);
             map.setZoom(15);
         } else {
             // Clear only the *selected* place if search is invalid, keep the pinned one
@@ -139,12 +1169,149 @@ function MapContent({ incidentsToDisplay, categoryColorMap }: { incidentsToDispl
              pacContainers.forEach(container => container.remove());
         }
     };
-  }, [map]);
+  }, [map, showPlace, dataSource.bounds]);
+
+  // Show a saved place picked outside the map (e.g. from the comparison view), once per request
+  const handledPlaceFocusRequestRef = useRef<typeof placeFocusRequest>(null);
+  useEffect(() => {
+    if (!map || !placeFocusRequest || placeFocusRequest === handledPlaceFocusRequestRef.current) return;
+    handledPlaceFocusRequestRef.current = placeFocusRequest;
+    const { place } = placeFocusRequest;
+    showPlace({ name: place.name, formattedAddress: place.formattedAddress }, place.position);
+    if ((map.getZoom() ?? 0) < 15) map.setZoom(15);
+  }, [map, placeFocusRequest, showPlace]);
+
+  // Fit the map to an area picked outside it (e.g. a hotspot)
+  useEffect(() => {
+    if (!map || !boundsFocusRequest) return;
+    map.fitBounds(boundsFocusRequest.bounds, 40);
+    setSelectedPlaceDetails(null);
+  }, [map, boundsFocusRequest]);
+
+  // Report the shareable parts of the view to the parent (for the URL)
+  useEffect(() => {
+    onViewStateChange?.({
+      center,
+      zoom,
+      place: searchResultPosition && pinnedPlaceDetails ? { ...pinnedPlaceDetails, position: searchResultPosition } : null,
+      radius: nearbyRadius,
+      mode: visualizationMode,
+      weighting: densityWeighting,
+      regions: regionOptions,
+    });
+  }, [onViewStateChange, center, zoom, searchResultPosition, pinnedPlaceDetails, nearbyRadius, visualizationMode, densityWeighting, regionOptions]);
+
+  // Pan to an incident picked outside the map (e.g. from the table), zooming in past clustering.
+  // Each request is handled once, so later incident list changes don't pan back to it.
+  const handledFocusRequestRef = useRef<typeof focusRequest>(null);
+  useEffect(() => {
+    if (!map || !focusRequest || focusRequest === handledFocusRequestRef.current) return;
+    handledFocusRequestRef.current = focusRequest;
+    const incident = incidents.find(i => incidentKey(i) === focusRequest.incidentKey);
+    if (!incident) return;
+    map.panTo({ lat: incident.latitude, lng: incident.longitude });
+    if ((map.getZoom() ?? 0) < clusterMaxZoom) map.setZoom(clusterMaxZoom);
+    setSelectedPlaceDetails(null);
+  }, [map, focusRequest, incidents]);
+
+  const registerMarkerElement = (key: string, position: LatLngLiteral, element: HTMLElement | null) => {
+    if (element) {
+      markerElementsRef.current[key] = { element, position };
+    } else {
+      delete markerElementsRef.current[key];
+    }
+  };
+
+  // Close the incident pop-up and put focus back on its marker
+  const closeIncidentDetails = () => {
+    if (selectedIncidentKey) markerElementsRef.current[selectedIncidentKey]?.element.focus();
+    setSelectedIncidentKey(null);
+  };
+
+  // Latest selection for the keyboard handler below, which is attached once per map
+  const keyboardStateRef = useRef({ selectedIncidentKey, closeIncidentDetails });
 
-  // Reset selected incident index when incidentsToDisplay changes
   useEffect(() => {
-    setSelectedIncidentIndex(null);
-  }, [incidentsToDisplay]);
+    keyboardStateRef.current = { selectedIncidentKey, closeIncidentDetails };
+  });
+
+  // Keyboard handling inside the map, ahead of the map's own (which pans on arrow keys):
+  // arrows move from a focused marker to the nearest visible marker in that direction, Escape closes the incident pop-up
+  useEffect(() => {
+    if (!map) return;
+    const container = map.getDiv();
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && keyboardStateRef.current.selectedIncidentKey) {
+        event.preventDefault();
+        event.stopPropagation();
+        keyboardStateRef.current.closeIncidentDetails();
+        return;
+      }
+      if (!arrowKeyDirections[event.key]) return;
+      const markers = Object.entries(markerElementsRef.current);
+      const focused = markers.find(([, marker]) => marker.element.contains(event.target as Node));
+      if (!focused) return;
+      event.preventDefault();
+      event.stopPropagation();
+      const bounds = map.getBounds()?.toJSON();
+      const candidates = markers
+        .filter(([key, marker]) => key !== focused[0] && (!bounds || isInBounds(marker.position, bounds)))
+        .map(([key, marker]) => ({ key, position: marker.position }));
+      const neighborKey = findNeighborInDirection(focused[1].position, candidates, event.key);
+      if (neighborKey) markerElementsRef.current[neighborKey].element.focus();
+    };
+    container.addEventListener('keydown', handleKeyDown, true);
+    return () => container.removeEventListener('keydown', handleKeyDown, true);
+  }, [map]);
+
+  // Handle a click on a cluster badge: zoom in to separate it, or fan it out if zooming can't help
+  const handleClusterClick = (cluster: IncidentCluster) => {
+    if (!map) return;
+    if (cluster.colocated || Math.round(zoom) >= clusterMaxZoom) {
+      setSpiderfiedClusterKey(cluster.key);
+      return;
+    }
+    const bounds = new google.maps.LatLngBounds();
+    cluster.incidents.forEach(incident => bounds.extend({ lat: incident.latitude, lng: incident.longitude }));
+    map.fitBounds(bounds, 80);
+  };
+
+  // Render a single incident dot at the given (possibly fanned-out) position
+  const renderIncidentMarker = (incident: Incident, position: LatLngLiteral) => {
+    const key = incidentKey(incident);
+    const markerStyle = getIncidentStyle(incident, taxonomy);
+    const isSelected = key === selectedIncidentKey;
+    const isNew = newIncidentKeys.has(key);
+    // Approximate locations are hollow: a ring for intersections, a diamond for routes
+    const precision = getLocationPrecision(incident);
+    return (
+      <AdvancedMarker
+        key={key}
+        ref={(marker) => registerMarkerElement(key, position, marker)}
+        position={position}
+        title={describeIncident(incident, taxonomy, isNew)} // Hover tooltip and the marker's accessible name
+        zIndex={isSelected ? 1000 : isNew ? 500 : undefined}
+        onClick={({ domEvent }) => {
+            domEvent.stopPropagation();
+            setSelectedIncidentKey(key);
+            setSelectedPlaceDetails(null);
+        }}
+      >
+        {/* Use dynamic background color; incidents from newer logs get a ring and a "new" badge */}
+        <div className="relative" aria-hidden="true">
+          <div
+            className={`w-4 h-4 border-2 shadow-sm ${precision === 'route' ? 'rounded-sm rotate-45' : 'rounded-full'} ${isSelected ? 'border-gray-900 scale-125' : 'border-white'} ${isNew ? 'ring-2 ring-cyan-500' : ''}`}
+            style={precision === 'address'
+              ? { backgroundColor: markerStyle.color }
+              : { backgroundColor: '#FFFFFF', borderColor: isSelected ? '#111827' : markerStyle.color, borderWidth: 3 }}
+          ></div>
+          {isNew && (
+            <span className="absolute -top-3 left-1/2 -translate-x-1/2 px-1 rounded bg-cyan-600 text-white text-[9px] font-bold leading-tight pointer-events-none">new</span>
+          )}
+        </div>
+      </AdvancedMarker>
+    );
+  };
 
   return (
      <> {/* Use Fragment to return multiple elements */}
@@ -156,40 +1323,131 @@ function MapContent({ incidentsToDisplay, categoryColorMap }: { incidentsToDispl
             className="absolute top-2 left-1/2 -translate-x-1/2 z-10 w-11/12 max-w-md p-2 rounded-md shadow-md border border-gray-300 bg-white text-gray-900 placeholder:text-gray-500 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
         />
         <Map
-          defaultCenter={{ lat: 37.4419, lng: -122.1430 }} // Keep initial center
-          defaultZoom={13}
+          defaultCenter={initialViewState.center}
+          defaultZoom={initialViewState.zoom}
           mapId="PALO_ALTO_INCIDENT_MAP"
           gestureHandling={"greedy"}
           disableDefaultUI={true}
-          onClick={() => {
-              // Close both info windows on map click
-              setSelectedIncidentIndex(null);
+          disableDoubleClickZoom={areaDrawingMode !== null}
+          draggableCursor={areaDrawingMode ? 'crosshair' : undefined}
+          onClick={(ev) => {
+              if (areaDrawingMode) {
+                  if (ev.detail.latLng) handleDrawingClick(ev.detail.latLng);
+                  return;
+              }
+              setEditingAreaIndex(null);
+              setSelectedRegion(null);
+              // Close both info windows on map click, and collapse any spiderfied group
+              setSelectedIncidentKey(null);
               setSelectedPlaceDetails(null);
+              setSpiderfiedClusterKey(null);
+          }}
+          onZoomChanged={(ev) => {
+              setZoom(ev.detail.zoom);
+              setSpiderfiedClusterKey(null);
+          }}
+          onIdle={(ev) => {
+              const mapCenter = ev.map.getCenter();
+              if (mapCenter) setCenter({ lat: mapCenter.lat(), lng: mapCenter.lng() });
+              const mapBounds = ev.map.getBounds();
+              if (mapBounds) {
+                  setViewportBounds(mapBounds.toJSON());
+                  onViewportBoundsChange?.(mapBounds.toJSON());
+              }
           }}
         >
-          {/* Incident Markers - MODIFIED */}
-          {incidents.map((incident, index) => {
-            const markerColor = categoryColorMap[incident.offense_category] || '#9CA3AF'; // Use map, default to gray
+          {/* Density cells replace the markers in density mode */}
+          {visualizationMode === 'density' && (
+              <DensityLayer cells={densityBins.cells} maxValue={densityBins.maxValue} />
+          )}
+
+          {/* Region choropleth */}
+          {regionView && (
+              <RegionLayer
+                  regions={regionView.regions}
+                  values={regionView.values}
+                  maxValue={regionView.maxValue}
+                  selectedRegionId={selectedRegion?.id ?? null}
+                  onSelectRegion={(id, position) => {
+                      setSelectedRegion({ id, position });
+                      setSelectedIncidentKey(null);
+                      setSelectedPlaceDetails(null);
+                  }}
+              />
+          )}
+
+          {/* Approximate areas of route/intersection incidents, under their markers */}
+          {visualizationMode === 'markers' && approximateLocations.length > 0 && (
+              <ApproximateLocationLayer locations={approximateLocations} />
+          )}
+
+          {/* Incident Markers - clustered by zoom level */}
+          {visualizationMode === 'markers' && clusters.map(cluster => {
+            if (cluster.incidents.length === 1) {
+              return renderIncidentMarker(cluster.incidents[0], { lat: cluster.incidents[0].latitude, lng: cluster.incidents[0].longitude });
+            }
+
+            // Spiderfied group: each incident gets its own fanned-out marker
+            if (spiderfied && spiderfied.cluster.key === cluster.key) {
+              return cluster.incidents.map(incident => renderIncidentMarker(incident, spiderfied.positionByKey[incidentKey(incident)]));
+            }
+
+            const count = cluster.incidents.length;
+            const badgeColor = getIncidentStyle(getHighestSeverityIncident(cluster.incidents, taxonomy), taxonomy).color;
+            const badgeSize = count < 10 ? 24 : count < 50 ? 30 : 36;
+            const newCount = cluster.incidents.filter(incident => newIncidentKeys.has(incidentKey(incident))).length;
             return (
               <AdvancedMarker
-                key={`${incident.case_number}-${incident.police_record_date_str ?? index}`}
-                position={{ lat: incident.latitude, lng: incident.longitude }}
+                key={cluster.key}
+                ref={(marker) => registerMarkerElement(`cluster:${cluster.key}`, cluster.position, marker)}
+                position={cluster.position}
+                title={(cluster.colocated
+                  ? `${count} incidents at this location (click to expand)`
+                  : `${count} incidents (click to zoom in)`) + (newCount > 0 ? `, ${newCount} new` : '')}
                 onClick={({ domEvent }) => {
                     domEvent.stopPropagation();
-                    setSelectedIncidentIndex(index);
-                    setSelectedPlaceDetails(null);
+                    handleClusterClick(cluster);
                 }}
               >
-                {/* Use dynamic background color */}
                 <div
-                  className={`w-4 h-4 rounded-full border-2 border-white shadow-sm`}
-                  style={{ backgroundColor: markerColor }}
-                  title={incident.offense_category} // Add tooltip for category on marker hover
-                ></div>
+                  className={`rounded-full border-2 border-white shadow-md flex items-center justify-center text-xs font-bold text-white ${newCount > 0 ? 'ring-2 ring-cyan-500' : ''}`}
+                  style={{ backgroundColor: badgeColor, width: badgeSize, height: badgeSize }}
+                  aria-hidden="true"
+                >
+                  {count}
+                </div>
               </AdvancedMarker>
             );
           })}
 
+          {/* Connector lines for the spiderfied group */}
+          {visualizationMode === 'markers' && spiderfied && (
+              <SpiderLegs center={spiderfied.cluster.position} positions={spiderfied.positions} />
+          )}
+
+          {/* Drawn area filters, and the outline of the one being drawn */}
+          {areas.map((area, i) => (
+              <DrawnAreaShape
+                  key={i}
+                  area={area}
+                  isEditing={editingAreaIndex === i}
+                  isDrawing={areaDrawingMode !== null}
+                  onSelect={() => setEditingAreaIndex(i)}
+                  onChange={(updated) => onAreasChange(areas.map((existing, j) => j === i ? updated : existing))}
+              />
+          ))}
+          {areaDrawingMode && <DraftAreaLine points={draftAreaPoints} />}
+          {areaDrawingMode && draftAreaPoints.map((point, i) => (
+              <AdvancedMarker key={`draft-${i}`} position={point} clickable={false}>
+                  <div className="w-2.5 h-2.5 rounded-full bg-violet-600 border-2 border-white shadow"></div>
+              </AdvancedMarker>
+          ))}
+
+          {/* Radius ring around the searched place */}
+          {searchResultPosition && (
+              <RadiusCircle center={searchResultPosition} radius={nearbyRadius} />
+          )}
+
           {/* Search Result Marker - Renders if a position is set */}
           {searchResultPosition && (
               <AdvancedMarker
@@ -199,47 +1457,90 @@ function MapContent({ incidentsToDisplay, categoryColorMap }: { incidentsToDispl
                       _.domEvent.stopPropagation(); 
                       // Re-open the place InfoWindow using the pinned details
                       setSelectedPlaceDetails(pinnedPlaceDetails); 
-                      setSelectedIncidentIndex(null); 
+                      setSelectedIncidentKey(null); 
                   }}
               >
                   {/* The custom div is removed here to use the default pin */}
               </AdvancedMarker>
           )}
 
-          {/* Incident InfoWindow */}
-          {selectedIncident && (
+          {/* Saved place pins (the searched place keeps the default pin) */}
+          {savedPlaces
+            .filter(place => !searchResultPosition || !isSamePosition(place.position, searchResultPosition))
+            .map(place => (
+              <AdvancedMarker
+                  key={`saved-${place.id}`}
+                  position={place.position}
+                  title={place.name}
+                  onClick={({ domEvent }) => {
+                      domEvent.stopPropagation();
+                      showPlace({ name: place.name, formattedAddress: place.formattedAddress }, place.position);
+                  }}
+              >
+                  <div className="flex items-center justify-center w-7 h-7 rounded-full bg-indigo-600 border-2 border-white shadow-md text-white text-sm">★</div>
+              </AdvancedMarker>
+            ))}
+
+          {/* Region summary */}
+          {selectedRegion && selectedRegionDetails?.region && (
             <InfoWindow
-              position={{ lat: selectedIncident.latitude, lng: selectedIncident.longitude }}
-              pixelOffset={[0, -15]}
-              onCloseClick={() => setSelectedIncidentIndex(null)}
-              maxWidth={300}
+              position={selectedRegion.position}
+              onCloseClick={() => setSelectedRegion(null)}
+              maxWidth={280}
             >
-               <div className="p-2 text-sm font-sans text-gray-900 border-l-4 border-red-500 pl-3">
-                  <h3 className="font-semibold text-base mb-1">{selectedIncident.offense_type}</h3>
-                  <p><span className="font-medium">Case:</span> {selectedIncident.case_number}</p>
-                  <p><span className="font-medium">Date:</span> {selectedIncident.date}</p>
-                  <p><span className="font-medium">Address:</span> {selectedIncident.formatted_address || selectedIncident.location}</p>
-                  <p><span className="font-medium">Type:</span> {selectedIncident.location_interpretation}</p>
-                  {selectedIncident.google_maps_uri && (
-                      <a href={selectedIncident.google_maps_uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 hover:underline mt-1 block">
-                          View on Google Maps
-                      </a>
+               <div className="p-2 text-sm font-sans text-gray-900">
+                  <h3 className="font-semibold text-base mb-1">
+                    ZIP {selectedRegionDetails.region.name} <span className="text-xs font-normal text-amber-700">(approximate area)</span>
+                  </h3>
+                  <p className="font-medium">
+                    {selectedRegionDetails.stats?.total ?? 0} incident{selectedRegionDetails.stats?.total === 1 ? '' : 's'}
+                    <span className="font-normal text-xs text-gray-500"> (active filters applied)</span>
+                  </p>
+                  {regionOptions.category && (
+                    <p>
+                      {regionOptions.category}: {selectedRegionDetails.stats?.byCategory[regionOptions.category] ?? 0}
+                      {` (${regionValue(selectedRegionDetails.stats, { ...regionOptions, metric: 'share' })}%)`}
+                    </p>
                   )}
-                  {selectedIncident.police_record_date && (
-                    <p className="mt-1"><span className="font-medium">Police Log Date:</span> {selectedIncident.police_record_date}</p>
+                  {selectedRegionDetails.stats && (
+                    <>
+                      <ul className="mt-1 space-y-0.5 text-xs">
+                        {Object.entries(selectedRegionDetails.stats.byCategory)
+                          .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+                          .slice(0, 5)
+                          .map(([category, count]) => (
+                            <li key={category} className="flex items-center">
+                              <span className="w-2.5 h-2.5 rounded-sm mr-1.5 inline-block flex-shrink-0" style={{ backgroundColor: categoryColorMap[category] || '#9CA3AF' }}></span>
+                              <span className="flex-grow">{category}</span>
+                              <span className="ml-2">{count}</span>
+                            </li>
+                          ))}
+                      </ul>
+                      <p className="mt-1 text-xs text-gray-600">
+                        {getSeverityOrder(taxonomy).filter(severity => selectedRegionDetails.stats?.bySeverity[severity]).map(severity => `${severity} ${selectedRegionDetails.stats?.bySeverity[severity]}`).join(' · ')}
+                      </p>
+                    </>
                   )}
-                  <a 
-                    href={generatePdfLink(selectedIncident)} 
-                    target="_blank" 
-                    rel="noopener noreferrer" 
-                    className="text-blue-600 hover:text-blue-800 hover:underline mt-1 block"
-                  >
-                    View Original Police Log
-                  </a>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Grouped by the ZIP in each address. The outline is drawn around the incident locations, not the official ZIP boundary.
+                  </p>
                </div>
             </InfoWindow>
           )}
 
+          {/* Incident InfoWindow */}
+          {selectedIncident && selectedIncidentPosition && (
+            <InfoWindow
+              position={selectedIncidentPosition}
+              pixelOffset={[0, -15]}
+              shouldFocus // Move focus into the pop-up so keyboard and screen-reader users land on the details
+              onCloseClick={closeIncidentDetails}
+              maxWidth={300}
+            >
+               <IncidentDetails incident={selectedIncident} dataSource={dataSource} />
+            </InfoWindow>
+          )}
+
           {/* Place Search Result InfoWindow - Renders if a place is *selected* */}
           {selectedPlaceDetails && searchResultPosition && (
               <InfoWindow
@@ -260,65 +1561,1044 @@ function MapContent({ incidentsToDisplay, categoryColorMap }: { incidentsToDispl
                       >
                           View on Google Maps
                       </a>
+                      {searchResultPosition && (isPinnedPlaceSaved ? (
+                          <p className="mt-1 text-green-700">★ Saved for comparison</p>
+                      ) : (
+                          <button
+                            onClick={() => onSavePlace({ ...selectedPlaceDetails, position: searchResultPosition })}
+                            className="mt-1 text-indigo-700 hover:text-indigo-900 hover:underline"
+                          >
+                              ★ Save place
+                          </button>
+                      ))}
                   </div>
               </InfoWindow>
           )}
         </Map>
+
+        {/* Markers / density toggle and legend */}
+        <VisualizationControls
+            mode={visualizationMode}
+            onModeChange={(mode) => {
+                setVisualizationMode(mode);
+                setSpiderfiedClusterKey(null);
+                setSelectedRegion(null);
+            }}
+            weighting={densityWeighting}
+            onWeightingChange={setDensityWeighting}
+            maxValue={densityBins.maxValue}
+            cellWidthMeters={hexWidthInMeters(zoom, map?.getCenter()?.lat() ?? dataSource.center.lat)}
+            regionOptions={regionOptions}
+            onRegionOptionsChange={(options) => {
+                setRegionOptions(options);
+                setSelectedRegion(null);
+            }}
+            regionCategories={legendCategories}
+            regionMaxValue={regionView?.maxValue ?? 0}
+            unassignedCount={regionView?.unassignedCount ?? 0}
+            taxonomy={taxonomy}
+        />
+
+        <AreaControls
+            areas={areas}
+            areaCounts={areaCounts}
+            drawingMode={areaDrawingMode}
+            draftPointCount={draftAreaPoints.length}
+            editingAreaIndex={editingAreaIndex}
+            onStartDrawing={(mode) => {
+                setAreaDrawingMode(mode);
+                setDraftAreaPoints([]);
+                setEditingAreaIndex(null);
+                setSelectedIncidentKey(null);
+                setSelectedPlaceDetails(null);
+            }}
+            onFinishDrawing={() => addArea({ kind: 'polygon', path: draftAreaPoints })}
+            onUndoPoint={() => setDraftAreaPoints(prev => prev.slice(0, -1))}
+            onCancelDrawing={stopDrawingArea}
+            onEditArea={setEditingAreaIndex}
+            onRemoveArea={(index) => {
+                onAreasChange(areas.filter((_, i) => i !== index));
+                setEditingAreaIndex(null);
+            }}
+            onClearAreas={() => {
+                onAreasChange([]);
+                setEditingAreaIndex(null);
+            }}
+        />
+
+        <MapLegend
+            categories={legendCategories}
+            categoryColorMap={categoryColorMap}
+            countsBySeverity={countsInView}
+            selectedCategories={selectedCategories}
+            onSelectedCategoriesChange={onSelectedCategoriesChange}
+            taxonomy={taxonomy}
+        />
+
+        {/* Nearby incidents analysis for the searched place */}
+        {searchResultPosition && pinnedPlaceDetails && (
+            <NearbyIncidentsPanel
+                placeName={pinnedPlaceDetails.name}
+                nearbyIncidents={nearbyIncidents}
+                radius={nearbyRadius}
+                onRadiusChange={setNearbyRadius}
+                categoryColorMap={categoryColorMap}
+                taxonomy={taxonomy}
+                onSelectIncident={(incident) => {
+                    setSelectedIncidentKey(incidentKey(incident));
+                    setSelectedPlaceDetails(null);
+                    map?.panTo({ lat: incident.latitude, lng: incident.longitude });
+                }}
+                onClear={() => {
+                    setSearchResultPosition(null);
+                    setPinnedPlaceDetails(null);
+                    setSelectedPlaceDetails(null);
+                    if (searchInputRef.current) searchInputRef.current.value = '';
+                }}
+            />
+        )}
      </> 
   );
 }
 
-// Define the order of severity
-const severityOrder = ['High', 'Medium', 'Low', 'Informational/Other', 'Default'];
+// Default renderer: Google Maps with Places search. `onLoadError` is called when the Maps script can't load (e.g. offline).
+function GoogleMapRenderer({ apiKey, onLoadError, ...props }: MapRendererProps & { apiKey: string, onLoadError: () => void }) {
+  return (
+    <APIProvider apiKey={apiKey} libraries={['places']} onError={onLoadError}>
+      <MapContent {...props} />
+    </APIProvider>
+  );
+}
+
+// --- Timeline Playback ---
+const timelineSpeeds = [1, 2, 4, 8]; // Days per second
+const timelineWindowOptions = [0, 1, 3, 7, 14]; // 0 = cumulative (everything up to the current day)
+
+// Timeline scrubber with play/pause, speed, window size and a per-day sparkline
+function TimelineControls({
+    startTs,
+    dailyCounts,
+    dayIndex,
+    onDayIndexChange,
+    windowDays,
+    onWindowDaysChange,
+    isPlaying,
+    onPlayingChange,
+    speed,
+    onSpeedChange,
+    visibleCount,
+    outlierCount,
+}: {
+    startTs: number,
+    dailyCounts: number[],
+    dayIndex: number,
+    onDayIndexChange: (dayIndex: number) => void,
+    windowDays: number,
+    onWindowDaysChange: (windowDays: number) => void,
+    isPlaying: boolean,
+    onPlayingChange: (isPlaying: boolean) => void,
+    speed: number,
+    onSpeedChange: (speed: number) => void,
+    visibleCount: number,
+    outlierCount: number,
+}) {
+    const dayCount = dailyCounts.length;
+    const maxCount = Math.max(1, ...dailyCounts);
+    const windowStart = windowDays === 0 ? 0 : Math.max(0, dayIndex - windowDays + 1);
+
+    return (
+        <div className="mt-3 bg-white rounded-lg shadow border border-gray-200 p-3 text-sm text-gray-700">
+            <div className="flex flex-wrap items-center gap-3">
+                <button
+                    onClick={() => {
+                        // Restart from the beginning when playing from the last day
+                        if (!isPlaying && dayIndex >= dayCount - 1) onDayIndexChange(0);
+                        onPlayingChange(!isPlaying);
+                    }}
+                    className="px-3 py-1 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    aria-label={isPlaying ? 'Pause timeline' : 'Play timeline'}
+                >
+                    {isPlaying ? '❚❚ Pause' : '▶ Play'}
+                </button>
+                <span className="font-medium">
+                    {windowDays === 0 || windowStart === dayIndex
+                        ? (windowDays === 0 ? `Through ${formatUTCDay(startTs + dayIndex * dayInMs)}` : formatUTCDay(startTs + dayIndex * dayInMs))
+                        : `${formatUTCDay(startTs + windowStart * dayInMs)} – ${formatUTCDay(startTs + dayIndex * dayInMs)}`}
+                </span>
+                <span className="text-xs text-gray-500">{visibleCount} incident{visibleCount === 1 ? '' : 's'} on map</span>
+                <div className="flex items-center gap-2 ml-auto text-xs">
+                    <label htmlFor="timeline-window">Show</label>
+                    <select
+                        id="timeline-window"
+                        value={windowDays}
+                        onChange={(e) => onWindowDaysChange(parseInt(e.target.value, 10))}
+                        className="p-1 border border-gray-300 rounded-md text-xs text-gray-700"
+                    >
+                        {timelineWindowOptions.map(days => (
+                            <option key={days} value={days}>{days === 0 ? 'All up to day' : days === 1 ? 'Single day' : `${days}-day window`}</option>
+                        ))}
+                    </select>
+                    <label htmlFor="timeline-speed">Speed</label>
+                    <select
+                        id="timeline-speed"
+                        value={speed}
+                        onChange={(e) => onSpeedChange(parseInt(e.target.value, 10))}
+                        className="p-1 border border-gray-300 rounded-md text-xs text-gray-700"
+                    >
+                        {timelineSpeeds.map(daysPerSecond => (
+                            <option key={daysPerSecond} value={daysPerSecond}>{daysPerSecond} day{daysPerSecond === 1 ? '' : 's'}/s</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+            <input
+                type="range"
+                min={0}
+                max={dayCount - 1}
+                step={1}
+                value={dayIndex}
+                onChange={(e) => onDayIndexChange(parseInt(e.target.value, 10))}
+                className="w-full mt-2 accent-indigo-600"
+                aria-label="Timeline day"
+            />
+            {/* Sparkline of incidents per day (current filters), with the visible window highlighted */}
+            <svg viewBox={`0 0 ${dayCount} 30`} preserveAspectRatio="none" className="w-full h-8" aria-hidden="true">
+                <rect x={windowStart} y={0} width={dayIndex - windowStart + 1} height={30} fill="#E0E7FF" />
+                {dailyCounts.map((count, i) => (
+                    <rect
+                        key={i}
+                        x={i + 0.1}
+                        y={30 - (count / maxCount) * 30}
+                        width={0.8}
+                        height={(count / maxCount) * 30}
+                        fill={i >= windowStart && i <= dayIndex ? '#4F46E5' : '#9CA3AF'}
+                    />
+                ))}
+            </svg>
+            <div className="flex justify-between text-[10px] text-gray-500">
+                <span>{formatUTCDay(startTs)}</span>
+                <span>{formatUTCDay(startTs + (dayCount - 1) * dayInMs)}</span>
+            </div>
+            {outlierCount > 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                    {outlierCount} filtered incident{outlierCount === 1 ? ' has a date' : 's have dates'} outside this range and {outlierCount === 1 ? 'is' : 'are'} not shown during playback.
+                </p>
+            )}
+        </div>
+    );
+}
+
+// --- Repeat-Location Hotspots ---
+const hotspotPageSize = 10;
 
-// Helper function to get the severity level string for a category
-const getCategorySeverityLevel = (category: string): string => {
-    const lowerCaseCategory = category.toLowerCase();
+const trendArrows: { [direction in Hotspot['trend']['direction']]: string } = { up: '↑', down: '↓', steady: '→' };
 
-    if (lowerCaseCategory.includes('violent') || lowerCaseCategory.includes('robbery') || lowerCaseCategory.includes('burglary') || lowerCaseCategory.includes('weapon') || lowerCaseCategory.includes('assault')) {
-        return 'High';
+// Ranked list of places with repeat incidents. Clicking an entry zooms the map to it and lists its cases.
+function HotspotPanel({
+    hotspots,
+    categories,
+    categoryColorMap,
+    selectedHotspotId,
+    onSelectHotspot,
+    selectedIncidentKey,
+    onSelectIncident,
+}: {
+    hotspots: Hotspot[],
+    categories: string[],
+    categoryColorMap: CategoryColorMap,
+    selectedHotspotId: string | null,
+    onSelectHotspot: (hotspot: Hotspot | null) => void,
+    selectedIncidentKey: string | null,
+    onSelectIncident: (incident: Incident) => void,
+}) {
+    const [visibleCount, setVisibleCount] = useState(hotspotPageSize);
+
+    if (hotspots.length === 0) {
+        return <p className="p-3 text-sm text-gray-600">No address or spot has more than one of the filtered incidents.</p>;
     }
-    if (lowerCaseCategory.includes('theft') || lowerCaseCategory.includes('fraud') || lowerCaseCategory.includes('vehicle') || lowerCaseCategory.includes('stolen') || lowerCaseCategory.includes('dui') || lowerCaseCategory.includes('narcotic')) {
-        return 'Medium';
+
+    const maxCount = hotspots[0].incidents.length;
+
+    return (
+        <div className="text-sm text-gray-800">
+            <ol className="divide-y divide-gray-100">
+                {hotspots.slice(0, visibleCount).map((hotspot, i) => {
+                    const isSelected = hotspot.id === selectedHotspotId;
+                    const count = hotspot.incidents.length;
+                    return (
+                        <li key={hotspot.id} className={isSelected ? 'bg-indigo-50' : ''}>
+                            <button
+                                onClick={() => onSelectHotspot(isSelected ? null : hotspot)}
+                                aria-expanded={isSelected}
+                                className={`w-full text-left px-3 py-2 flex items-start gap-3 focus:outline-none ${isSelected ? '' : 'hover:bg-gray-50 focus:bg-gray-50'}`}
+                            >
+                                <span className="w-6 text-right text-gray-500 tabular-nums">{i + 1}.</span>
+                                <span className="flex-1 min-w-0">
+                                    <span className="font-medium">{hotspot.label}</span>
+                                    <span className="ml-2 px-1 rounded bg-gray-100 text-[10px] uppercase text-gray-500 whitespace-nowrap">
+                                        {hotspot.kind === 'address' ? 'Address' : 'Route / intersection'}
+                                    </span>
+                                    {/* Category mix, scaled to the top hotspot */}
+                                    <span className="mt-1 flex h-2 rounded-sm overflow-hidden bg-gray-100" style={{ width: `${Math.max((count / maxCount) * 100, 4)}%` }}>
+                                        {categories.filter(category => hotspot.categoryCounts[category]).map(category => (
+                                            <span
+                                                key={category}
+                                                style={{ width: `${(hotspot.categoryCounts[category] / count) * 100}%`, backgroundColor: categoryColorMap[category] || '#9CA3AF' }}
+                                                title={`${category}: ${hotspot.categoryCounts[category]}`}
+                                            ></span>
+                                        ))}
+                                    </span>
+                                    <span className="block mt-0.5 text-xs text-gray-500">
+                                        {hotspot.firstTs !== null && hotspot.lastTs !== null
+                                            ? hotspot.firstTs === hotspot.lastTs ? formatUTCDay(hotspot.firstTs) : `${formatUTCDay(hotspot.firstTs)} – ${formatUTCDay(hotspot.lastTs)}`
+                                            : 'Unknown dates'}
+                                    </span>
+                                </span>
+                                <span className="text-right whitespace-nowrap">
+                                    <span className="text-lg font-semibold">{count}</span>
+                                    <span
+                                        className={`block text-xs ${hotspot.trend.direction === 'up' ? 'text-red-600' : hotspot.trend.direction === 'down' ? 'text-green-700' : 'text-gray-500'}`}
+                                        title={`${hotspot.trend.earlierCount} in the first half of the period, ${hotspot.trend.recentCount} in the second half`}
+                                    >
+                                        {trendArrows[hotspot.trend.direction]} {hotspot.trend.earlierCount} → {hotspot.trend.recentCount}
+                                    </span>
+                                </span>
+                            </button>
+                            {isSelected && (
+                                <div className="px-3 pb-3 pl-12 overflow-x-auto">
+                                    <table className="min-w-full text-left text-xs">
+                                        <thead className="text-gray-500 uppercase">
+                                            <tr>
+                                                <th scope="col" className="pr-3 py-1">Case</th>
+                                                <th scope="col" className="pr-3 py-1">Date</th>
+                                                <th scope="col" className="pr-3 py-1">Time</th>
+                                                <th scope="col" className="pr-3 py-1">Offense Type</th>
+                                                <th scope="col" className="py-1">Category</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-indigo-100">
+                                            {hotspot.incidents.map(incident => {
+                                                const key = incidentKey(incident);
+                                                return (
+                                                    // The whole row is clickable; the case number is a button so keyboard users can reach it too,
+                                                    // and its click (also from Enter/Space) bubbles up to the row
+                                                    <tr
+                                                        key={key}
+                                                        onClick={() => onSelectIncident(incident)}
+                                                        className={`cursor-pointer ${key === selectedIncidentKey ? 'bg-indigo-100' : 'hover:bg-white'}`}
+                                                    >
+                                                        <td className="pr-3 py-1 whitespace-nowrap">
+                                                            <button
+                                                                type="button"
+                                                                className="font-medium text-indigo-700 hover:underline focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded"
+                                                                aria-label={`Show case ${incident.case_number} on the map`}
+                                                                aria-current={key === selectedIncidentKey ? 'true' : undefined}
+                                                            >
+                                                                {incident.case_number}
+                                                            </button>
+                                                        </td>
+                                                        <td className="pr-3 py-1 whitespace-nowrap">{incident.date}</td>
+                                                        <td className="pr-3 py-1 whitespace-nowrap">{formatIncidentTime(incident.time)}</td>
+                                                        <td className="pr-3 py-1">{incident.offense_type}</td>
+                                                        <td className="py-1 whitespace-nowrap">
+                                                            <span className="w-2 h-2 rounded-full mr-1 inline-block" style={{ backgroundColor: categoryColorMap[incident.offense_category] || '#9CA3AF' }}></span>
+                                                            {incident.offense_category}
+                                                        </td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+                        </li>
+                    );
+                })}
+            </ol>
+            {hotspots.length > visibleCount && (
+                <div className="p-2 border-t border-gray-100 text-center">
+                    <button onClick={() => setVisibleCount(count => count + hotspotPageSize)} className="text-blue-600 hover:underline">
+                        Show more ({hotspots.length - visibleCount} left)
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+// --- Incident Table ---
+type TableSortKey = 'case_number' | 'date' | 'time' | 'offense_type' | 'offense_category' | 'formatted_address' | 'police_record_date';
+
+const tableColumns: { key: TableSortKey, label: string }[] = [
+    { key: 'case_number', label: 'Case' },
+    { key: 'date', label: 'Date' },
+    { key: 'time', label: 'Time' },
+    { key: 'offense_type', label: 'Offense Type' },
+    { key: 'offense_category', label: 'Category' },
+    { key: 'formatted_address', label: 'Address' },
+    { key: 'police_record_date', label: 'Log Date' },
+];
+
+const tablePageSizes = [25, 50, 100];
+
+// Compare two incidents by a table column; unknown dates/times sort last in ascending order
+const compareIncidentsBy = (a: Incident, b: Incident, key: TableSortKey): number => {
+    const compareNumbers = (x: number | null, y: number | null) => {
+        if (x === null && y === null) return 0;
+        if (x === null) return 1;
+        if (y === null) return -1;
+        return x - y;
+    };
+    switch (key) {
+        case 'date':
+            return compareNumbers(parseMDYToUTCDate(a.date)?.getTime() ?? null, parseMDYToUTCDate(b.date)?.getTime() ?? null);
+        case 'time':
+            return compareNumbers(isUnknownTime(a.time) ? null : a.time, isUnknownTime(b.time) ? null : b.time);
+        case 'police_record_date':
+            return compareNumbers(parseReportDate(a)?.getTime() ?? null, parseReportDate(b)?.getTime() ?? null);
+        case 'formatted_address':
+            return (a.formatted_address || a.location).localeCompare(b.formatted_address || b.location);
+        default:
+            return a[key].localeCompare(b[key], undefined, { numeric: true });
     }
-    if (lowerCaseCategory.includes('property') || lowerCaseCategory.includes('vandalism') || lowerCaseCategory.includes('traffic') || lowerCaseCategory.includes('disturbance') || lowerCaseCategory.includes('trespass') || lowerCaseCategory.includes('public order')) {
-        return 'Low';
+};
+
+// Sortable, searchable, paginated table of the filtered incidents
+function IncidentTable({
+    incidents,
+    categoryColorMap,
+    selectedIncidentKey,
+    newIncidentKeys,
+    onSelectIncident,
+}: {
+    incidents: Incident[],
+    categoryColorMap: CategoryColorMap,
+    selectedIncidentKey: string | null,
+    newIncidentKeys: Set<string>,
+    onSelectIncident: (incident: Incident) => void,
+}) {
+    const [sortKey, setSortKey] = useState<TableSortKey>('date');
+    const [sortAscending, setSortAscending] = useState(false); // Newest first
+    const [searchText, setSearchText] = useState('');
+    const [pageSize, setPageSize] = useState(tablePageSizes[0]);
+    const [page, setPage] = useState(0);
+
+    const rows = useMemo(() => {
+        const query = searchText.trim().toLowerCase();
+        const matching = query
+            ? incidents.filter(incident =>
+                [incident.case_number, incident.date, formatIncidentTime(incident.time), incident.offense_type,
+                 incident.offense_category, incident.formatted_address, incident.location, incident.police_record_date ?? '']
+                    .some(value => value.toLowerCase().includes(query)))
+            : incidents;
+        return [...matching].sort((a, b) => {
+            const result = compareIncidentsBy(a, b, sortKey);
+            // Tie-break on case number so paging is stable
+            return (sortAscending ? result : -result) || a.case_number.localeCompare(b.case_number);
+        });
+    }, [incidents, searchText, sortKey, sortAscending]);
+
+    const pageCount = Math.max(1, Math.ceil(rows.length / pageSize));
+    const currentPage = Math.min(page, pageCount - 1);
+    const pageRows = rows.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+
+    // Jump to the page holding the incident selected on the map, only when the selection changes
+    // (sorting or searching afterwards goes back to the first page as usual)
+    const jumpedToKeyRef = useRef<string | null>(null);
+    useEffect(() => {
+        if (selectedIncidentKey === jumpedToKeyRef.current) return;
+        jumpedToKeyRef.current = selectedIncidentKey;
+        if (!selectedIncidentKey) return;
+        const index = rows.findIndex(incident => incidentKey(incident) === selectedIncidentKey);
+        if (index >= 0) setPage(Math.floor(index / pageSize));
+    }, [selectedIncidentKey, rows, pageSize]);
+
+    const handleSort = (key: TableSortKey) => {
+        if (key === sortKey) {
+            setSortAscending(!sortAscending);
+        } else {
+            setSortKey(key);
+            setSortAscending(true);
+        }
+        setPage(0);
+    };
+
+    return (
+        <div className="bg-white rounded-lg shadow-lg border border-gray-300 text-sm text-gray-800">
+            <div className="p-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 border-b border-gray-200">
+                <input
+                    type="search"
+                    value={searchText}
+                    onChange={(e) => { setSearchText(e.target.value); setPage(0); }}
+                    placeholder="Search case, offense, address..."
+                    className="w-full sm:max-w-xs p-1.5 border border-gray-300 rounded-md text-sm text-gray-700 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+                    aria-label="Search incidents in table"
+                />
+                <div className="flex items-center gap-2 text-xs text-gray-600">
+                    <label htmlFor="table-page-size">Rows per page</label>
+                    <select
+                        id="table-page-size"
+                        value={pageSize}
+                        onChange={(e) => { setPageSize(parseInt(e.target.value, 10)); setPage(0); }}
+                        className="p-1 border border-gray-300 rounded-md text-xs text-gray-700"
+                    >
+                        {tablePageSizes.map(size => <option key={size} value={size}>{size}</option>)}
+                    </select>
+                </div>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="min-w-full text-left">
+                    <thead className="bg-gray-50 text-xs uppercase text-gray-500">
+                        <tr>
+                            {tableColumns.map(column => (
+                                <th
+                                    key={column.key}
+                                    scope="col"
+                                    className="px-3 py-2 font-semibold whitespace-nowrap"
+                                    aria-sort={column.key === sortKey ? (sortAscending ? 'ascending' : 'descending') : 'none'}
+                                >
+                                    <button onClick={() => handleSort(column.key)} className="uppercase hover:text-gray-800 focus:outline-none">
+                                        {column.label}
+                                        <span className="ml-1">{column.key === sortKey ? (sortAscending ? '▲' : '▼') : ''}</span>
+                                    </button>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        {pageRows.map(incident => {
+                            const key = incidentKey(incident);
+                            const isSelected = key === selectedIncidentKey;
+                            return (
+                                // Clicking anywhere in the row selects it; the case number is a button for keyboard users,
+                                // whose click (also from Enter/Space) bubbles up to the row
+                                <tr
+                                    key={key}
+                                    onClick={() => onSelectIncident(incident)}
+                                    className={`cursor-pointer ${isSelected ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+                                >
+                                    <td className="px-3 py-1.5 whitespace-nowrap">
+                                        <button
+                                            type="button"
+                                            className="font-medium text-indigo-700 hover:underline focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded"
+                                            aria-label={`Show case ${incident.case_number} on the map`}
+                                            aria-current={isSelected ? 'true' : undefined}
+                                        >
+                                            {incident.case_number}
+                                        </button>
+                                        {newIncidentKeys.has(key) && <span className="ml-1.5 px-1 rounded bg-cyan-600 text-white text-[10px] font-bold uppercase">New</span>}
+                                    </td>
+                                    <td className="px-3 py-1.5 whitespace-nowrap">{incident.date}</td>
+                                    <td className="px-3 py-1.5 whitespace-nowrap">{formatIncidentTime(incident.time)}</td>
+                                    <td className="px-3 py-1.5">{incident.offense_type}</td>
+                                    <td className="px-3 py-1.5 whitespace-nowrap">
+                                        <span className="w-2.5 h-2.5 rounded-full mr-1.5 inline-block" style={{ backgroundColor: categoryColorMap[incident.offense_category] || '#9CA3AF' }}></span>
+                                        {incident.offense_category}
+                                    </td>
+                                    <td className="px-3 py-1.5">{incident.formatted_address || incident.location}</td>
+                                    <td className="px-3 py-1.5 whitespace-nowrap">{incident.police_record_date}</td>
+                                </tr>
+                            );
+                        })}
+                        {pageRows.length === 0 && (
+                            <tr>
+                                <td colSpan={tableColumns.length} className="px-3 py-6 text-center text-gray-500 italic">No incidents match.</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+            <div className="p-3 flex items-center justify-between border-t border-gray-200 text-xs text-gray-600">
+                <span>
+                    {rows.length === 0 ? '0' : `${currentPage * pageSize + 1}–${Math.min((currentPage + 1) * pageSize, rows.length)}`} of {rows.length}
+                </span>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => setPage(currentPage - 1)}
+                        disabled={currentPage === 0}
+                        className="px-2 py-1 rounded border border-gray-300 disabled:opacity-40 hover:bg-gray-50"
+                    >
+                        Previous
+                    </button>
+                    <span>Page {currentPage + 1} of {pageCount}</span>
+                    <button
+                        onClick={() => setPage(currentPage + 1)}
+                        disabled={currentPage >= pageCount - 1}
+                        className="px-2 py-1 rounded border border-gray-300 disabled:opacity-40 hover:bg-gray-50"
+                    >
+                        Next
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+// --- Shareable URL State ---
+const getDefaultMapViewState = (source: DataSource): MapViewState => ({
+    center: source.center,
+    zoom: source.zoom,
+    place: null,
+    radius: defaultRadiusMeters,
+    mode: 'markers',
+    weighting: 'count',
+    regions: { metric: 'count', category: '' },
+});
+
+// Parse "lat,lng" into a LatLngLiteral, or null if malformed
+const parseLatLngParam = (value: string | null): LatLngLiteral | null => {
+    if (!value) return null;
+    const [lat, lng] = value.split(',').map(Number);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+    return { lat, lng };
+};
+
+const formatLatLngParam = ({ lat, lng }: LatLngLiteral): string => `${lat.toFixed(5)},${lng.toFixed(5)}`;
+
+// Read filters, map view and the linked incident from a query string. Unknown or malformed values fall back to defaults.
+// The data source itself (?city=) is read before loading, see Home.
+const parseUrlState = (search: string, incidents: Incident[], source: DataSource): { filters: FilterState, view: MapViewState, selectedIncidentKey: string | null } => {
+    const params = new URLSearchParams(search);
+    const filters = parseFilterParams(params, source.taxonomy);
+    const view = getDefaultMapViewState(source);
+    let selectedIncidentKey: string | null = null;
+
+    const center = parseLatLngParam(params.get('ll'));
+    const zoom = Number(params.get('z'));
+    if (center) view.center = center;
+    if (params.has('z') && Number.isFinite(zoom) && zoom >= 1 && zoom <= 22) view.zoom = zoom;
+
+    const placePosition = parseLatLngParam(params.get('pll'));
+    const placeName = params.get('place');
+    if (placePosition && placeName) {
+        view.place = { name: placeName, formattedAddress: params.get('addr') ?? '', position: placePosition };
     }
-     if (lowerCaseCategory.includes('admin') || lowerCaseCategory.includes('other') || lowerCaseCategory.includes('warrant') || lowerCaseCategory.includes('arrest') || lowerCaseCategory.includes('lost') || lowerCaseCategory.includes('found') || lowerCaseCategory.includes('suspicious') || lowerCaseCategory.includes('info') || lowerCaseCategory.includes('misc') || lowerCaseCategory.includes('welfare')) {
-        return 'Informational/Other';
+    const radius = Number(params.get('r'));
+    if (radiusOptions.includes(radius)) view.radius = radius;
+
+    if (params.get('view') === 'density' || params.get('view') === 'regions') view.mode = params.get('view') as VisualizationMode;
+    if (params.get('weight') === 'severity') view.weighting = 'severity';
+    const regionCategory = params.get('regionCat') ?? '';
+    view.regions = {
+        metric: params.get('regionMetric') === 'share' && regionCategory ? 'share' : 'count',
+        category: regionCategory,
+    };
+
+    // ?case=25-01153 (optionally &log=march-28-2025 when a case number appears in several logs)
+    const caseNumber = params.get('case');
+    if (caseNumber) {
+        const logDate = params.get('log');
+        const incident = incidents.find(i => i.case_number === caseNumber && (!logDate || i.police_record_date_str === logDate));
+        if (incident) {
+            selectedIncidentKey = incidentKey(incident);
+            // Don't let the default precise-only filter hide a directly linked incident; show its approximate area instead
+            if (!params.has('imprecise') && isImpreciseLocation(incident)) {
+                filters.locationFilter = 'areas';
+            }
+            if (!center) {
+                view.center = { lat: incident.latitude, lng: incident.longitude };
+                view.zoom = params.has('z') ? view.zoom : 16;
+            }
+        }
     }
-    return 'Default'; // Should ideally not happen with cleaned categories
+
+    return { filters, view, selectedIncidentKey };
 };
 
-// Helper function to assign colors based on keywords (can be placed outside the component or inside useMemo)
-// REVISED Logic to better match cleaned categories
-const assignColorByCategory = (category: string): string => {
-    const lowerCaseCategory = category.toLowerCase();
+// Build the query string for the current filters and map view, omitting defaults
+const serializeUrlState = (filters: FilterState, view: MapViewState, selectedIncidentKey: string | null, incidents: Incident[], source: DataSource): string => {
+    const params = new URLSearchParams();
 
-    // High Severity (Explicit Match or Keywords)
-    if (lowerCaseCategory.includes('violent') || lowerCaseCategory.includes('robbery') || lowerCaseCategory.includes('burglary') || lowerCaseCategory.includes('weapon') || lowerCaseCategory.includes('assault')) {
-        return '#B91C1C'; // Dark Red
-    }
-    // Medium Severity (Explicit Match or Keywords)
-    if (lowerCaseCategory.includes('theft') || lowerCaseCategory.includes('fraud') || lowerCaseCategory.includes('vehicle') || lowerCaseCategory.includes('stolen') || lowerCaseCategory.includes('dui') || lowerCaseCategory.includes('narcotic')) {
-        return '#F59E0B'; // Orange
+    if (source !== defaultDataSource) params.set('city', source.id);
+    appendFilterParams(params, filters);
+
+    const isDefaultViewport = formatLatLngParam(view.center) === formatLatLngParam(source.center) && view.zoom === source.zoom;
+    if (!isDefaultViewport) {
+        params.set('ll', formatLatLngParam(view.center));
+        params.set('z', String(Math.round(view.zoom * 100) / 100));
     }
-    // -- NEW: Specific Yellow for Property/Disturbance --
-    if (lowerCaseCategory.includes('property') || lowerCaseCategory.includes('vandalism') || lowerCaseCategory.includes('disturbance') || lowerCaseCategory.includes('trespass') || lowerCaseCategory.includes('public order')) {
-        return '#EAB308'; // Yellow 500
+    if (view.place) {
+        params.set('place', view.place.name);
+        if (view.place.formattedAddress) params.set('addr', view.place.formattedAddress);
+        params.set('pll', formatLatLngParam(view.place.position));
     }
-    // Low Severity (Traffic primarily now)
-    if (lowerCaseCategory.includes('traffic')) {
-        return '#2563EB'; // Blue
+    if (view.radius !== defaultRadiusMeters) params.set('r', String(view.radius));
+    if (view.mode !== 'markers') params.set('view', view.mode);
+    if (view.weighting !== 'count') params.set('weight', view.weighting);
+    if (view.mode === 'regions') {
+        if (view.regions.category) params.set('regionCat', view.regions.category);
+        if (view.regions.metric !== 'count') params.set('regionMetric', view.regions.metric);
     }
-    // Informational/Other (Explicit Match or Keywords)
-    if (lowerCaseCategory.includes('admin') || lowerCaseCategory.includes('other') || lowerCaseCategory.includes('warrant') || lowerCaseCategory.includes('arrest') || lowerCaseCategory.includes('lost') || lowerCaseCategory.includes('found') || lowerCaseCategory.includes('suspicious') || lowerCaseCategory.includes('info') || lowerCaseCategory.includes('misc') || lowerCaseCategory.includes('welfare')) {
-        return '#6B7280'; // Gray
+
+    if (selectedIncidentKey) {
+        const incident = incidents.find(i => incidentKey(i) === selectedIncidentKey);
+        if (incident) {
+            params.set('case', incident.case_number);
+            if (incident.police_record_date_str) params.set('log', incident.police_record_date_str);
+        }
     }
-    // Default
-    return '#9CA3AF'; // Lighter Gray
+
+    return params.toString();
 };
 
+// --- Export ---
+// Dropdown for downloading the filtered incidents as CSV, GeoJSON or KML (the latter two with the drawn areas)
+function ExportMenu({ incidents, filters, dataSource }: { incidents: Incident[], filters: FilterState, dataSource: DataSource }) {
+    const [isOpen, setIsOpen] = useState(false);
+
+    const handleExport = (format: ExportFormat) => {
+        const filename = buildExportFilename(filters, dataSource);
+        if (format === 'csv') {
+            downloadFile(incidentsToCsv(incidents, dataSource), `${filename}.csv`, 'text/csv;charset=utf-8');
+        } else if (format === 'geojson') {
+            downloadFile(incidentsToGeoJson(incidents, filters.drawnAreas, dataSource), `${filename}.geojson`, 'application/geo+json');
+        } else {
+            downloadFile(incidentsToKml(incidents, filters.drawnAreas, dataSource, filename), `${filename}.kml`, 'application/vnd.google-earth.kml+xml');
+        }
+        setIsOpen(false);
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                disabled={incidents.length === 0}
+                aria-haspopup="menu"
+                aria-expanded={isOpen}
+                className="px-3 py-1.5 text-sm rounded-md border border-gray-300 bg-white text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+                Export {isOpen ? '▲' : '▼'}
+            </button>
+            {isOpen && (
+                <div role="menu" className="absolute right-0 mt-1 w-48 z-20 bg-white rounded-md shadow-lg border border-gray-200 py-1 text-sm text-gray-700">
+                    {([
+                        ['csv', 'CSV (spreadsheet)'],
+                        ['geojson', 'GeoJSON'],
+                        ['kml', 'KML (Google Earth)'],
+                    ] as [ExportFormat, string][]).map(([format, label]) => (
+                        <button
+                            key={format}
+                            role="menuitem"
+                            onClick={() => handleExport(format)}
+                            className="w-full text-left px-3 py-1.5 hover:bg-gray-100 focus:outline-none focus:bg-gray-100"
+                        >
+                            {label}
+                        </button>
+                    ))}
+                    <p className="px-3 pt-1 text-xs text-gray-500 border-t border-gray-100">{incidents.length} incidents</p>
+                </div>
+            )}
+        </div>
+    );
+}
+
+// Button that copies the current page URL (which mirrors the app state) to the clipboard
+function CopyLinkButton() {
+    const [status, setStatus] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+    useEffect(() => {
+        if (status === 'idle') return;
+        const timeout = setTimeout(() => setStatus('idle'), 2000);
+        return () => clearTimeout(timeout);
+    }, [status]);
+
+    const handleClick = async () => {
+        try {
+            await navigator.clipboard.writeText(window.location.href);
+            setStatus('copied');
+        } catch (error) {
+            console.error("Error copying link:", error);
+            setStatus('failed');
+        }
+    };
+
+    return (
+        <button
+            onClick={handleClick}
+            className="px-3 py-1.5 text-sm rounded-md border border-gray-300 bg-white text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+            {status === 'copied' ? 'Link copied!' : status === 'failed' ? 'Copy failed' : 'Copy link'}
+        </button>
+    );
+}
+
+// --- New Since Last Visit ---
+// The newest police log date of the user's previous visit, per data source. Incidents from later logs are highlighted
+// as new. Each visit moves the stored date up to its own newest log for the next one, while the visit itself keeps the
+// previous date (in sessionStorage, so reloads don't clear the highlights) until "Mark as seen" moves it forward.
+// A first visit starts from the newest log.
+// (the stored dates are in src/lib/lastSeen.ts)
+
+// Summary of new incidents by category, with shortcuts to show only them or mark them as seen
+function NewIncidentsBanner({
+    newIncidents,
+    lastSeenLogTs,
+    categories,
+    categoryColorMap,
+    showOnlyNew,
+    onShowOnlyNewChange,
+    onMarkSeen,
+}: {
+    newIncidents: Incident[],
+    lastSeenLogTs: number,
+    categories: string[],
+    categoryColorMap: CategoryColorMap,
+    showOnlyNew: boolean,
+    onShowOnlyNewChange: (showOnlyNew: boolean) => void,
+    onMarkSeen: () => void,
+}) {
+    const categoryCounts: { [category: string]: number } = {};
+    newIncidents.forEach(incident => {
+        categoryCounts[incident.offense_category] = (categoryCounts[incident.offense_category] ?? 0) + 1;
+    });
+
+    return (
+        <div className="mb-4 p-3 bg-cyan-50 border border-cyan-200 rounded-md text-sm text-cyan-900">
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-2">
+                <p className="font-medium">
+                    <span className="mr-1.5 px-1 rounded bg-cyan-600 text-white text-[10px] font-bold uppercase align-middle">New</span>
+                    {newIncidents.length} incident{newIncidents.length === 1 ? '' : 's'} from police logs after {formatUTCDay(lastSeenLogTs)}, since your last visit
+                </p>
+                <div className="flex items-center gap-3 ml-auto">
+                    <label className="flex items-center cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={showOnlyNew}
+                            onChange={(e) => onShowOnlyNewChange(e.target.checked)}
+                            className="h-4 w-4 text-cyan-600 border-gray-300 rounded focus:ring-cyan-500 mr-1.5"
+                        />
+                        Show only new
+                    </label>
+                    <button onClick={onMarkSeen} className="px-2 py-1 rounded-md border border-cyan-300 bg-white text-cyan-800 hover:bg-cyan-100 focus:outline-none focus:ring-2 focus:ring-cyan-500">
+                        Mark as seen
+                    </button>
+                </div>
+            </div>
+            <ul className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs">
+                {categories.filter(category => categoryCounts[category]).map(category => (
+                    <li key={category} className="flex items-center">
+                        <span className="w-2.5 h-2.5 rounded-full mr-1.5 inline-block" style={{ backgroundColor: categoryColorMap[category] || '#9CA3AF' }}></span>
+                        {category}: <span className="ml-1 font-semibold">{categoryCounts[category]}</span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
+
+// --- Feeds ---
+// Menu of Atom and JSON feed links for the current filters (and the searched place's radius, if any)
+function FeedMenu({ query, hasPlace }: { query: string, hasPlace: boolean }) {
+    const [isOpen, setIsOpen] = useState(false);
+    const suffix = query ? `?${query}` : '';
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                aria-haspopup="menu"
+                aria-expanded={isOpen}
+                className="px-3 py-1.5 text-sm rounded-md border border-gray-300 bg-white text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+                Subscribe {isOpen ? '▲' : '▼'}
+            </button>
+            {isOpen && (
+                <div role="menu" className="absolute right-0 mt-1 w-56 z-20 bg-white rounded-md shadow-lg border border-gray-200 py-1 text-sm text-gray-700">
+                    {([
+                        ['feed.xml', 'RSS / Atom'],
+                        ['feed.json', 'JSON Feed'],
+                    ] as [string, string][]).map(([path, label]) => (
+                        <a
+                            key={path}
+                            role="menuitem"
+                            href={`/${path}${suffix}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            onClick={() => setIsOpen(false)}
+                            className="block px-3 py-1.5 hover:bg-gray-100 focus:outline-none focus:bg-gray-100"
+                        >
+                            {label}
+                        </a>
+                    ))}
+                    <p className="px-3 pt-1 text-xs text-gray-500 border-t border-gray-100">
+                        New incidents matching the current filters{hasPlace ? ' near the searched place' : ''}
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+}
+
+// --- Saved Places ---
+// Named places kept in localStorage so several candidate addresses can be compared side by side
+// (storage and the comparison statistics are in src/lib/savedPlaces.ts)
+
+// Two positions are the same place if they match to ~1 m (the precision used in URLs)
+const isSamePosition = (a: LatLngLiteral, b: LatLngLiteral): boolean => formatLatLngParam(a) === formatLatLngParam(b);
+
+// Side-by-side statistics for every saved place, using the currently filtered incidents
+function PlaceComparison({
+    places,
+    incidents,
+    categories,
+    categoryColorMap,
+    taxonomy,
+    newIncidentKeys,
+    onRenamePlace,
+    onRemovePlace,
+    onShowPlace,
+    onSelectIncident,
+}: {
+    places: SavedPlace[],
+    incidents: Incident[],
+    categories: string[],
+    categoryColorMap: CategoryColorMap,
+    taxonomy: Taxonomy,
+    newIncidentKeys: Set<string>,
+    onRenamePlace: (id: string, name: string) => void,
+    onRemovePlace: (id: string) => void,
+    onShowPlace: (place: SavedPlace) => void,
+    onSelectIncident: (incident: Incident) => void,
+}) {
+    const [radius, setRadius] = useState(defaultRadiusMeters);
+
+    const summaries = useMemo(
+        () => places.map(place => summarizePlace(incidents, place.position, radius, taxonomy, newIncidentKeys)),
+        [places, incidents, radius, taxonomy, newIncidentKeys]
+    );
+
+    if (places.length === 0) {
+        return (
+            <div className="bg-white rounded-lg shadow border border-gray-300 p-6 text-sm text-gray-600">
+                No saved places yet. Search for an address on the map, then click &quot;Save place&quot; in its pop-up to add it here.
+            </div>
+        );
+    }
+
+    // Lowest value in a row is highlighted as the "quietest" place
+    const lowest = (values: number[]) => Math.min(...values);
+    const rowCategories = categories.filter(category => summaries.some(summary => summary.categoryCounts[category]));
+    const cellClass = 'px-3 py-1.5 align-top';
+
+    return (
+        <div className="bg-white rounded-lg shadow border border-gray-300 text-sm text-gray-800">
+            <div className="p-3 flex flex-wrap items-center gap-2 border-b border-gray-200">
+                <label htmlFor="comparison-radius" className="text-gray-600">Within</label>
+                <select
+                    id="comparison-radius"
+                    value={radius}
+                    onChange={(e) => setRadius(parseInt(e.target.value, 10))}
+                    className="p-1 border border-gray-300 rounded-md text-sm text-gray-700"
+                >
+                    {radiusOptions.map(option => <option key={option} value={option}>{formatDistance(option)}</option>)}
+                </select>
+                <span className="text-xs text-gray-500">of each place, using the date, category and severity filters (not the hours, drawn areas or location options). Lowest values are highlighted in green.</span>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="min-w-full text-left">
+                    <thead className="bg-gray-50 text-xs text-gray-500">
+                        <tr>
+                            <th scope="col" className="px-3 py-2 w-40"></th>
+                            {places.map(place => (
+                                <th key={place.id} scope="col" className="px-3 py-2 min-w-[12rem] font-normal">
+                                    <input
+                                        type="text"
+                                        value={place.name}
+                                        onChange={(e) => onRenamePlace(place.id, e.target.value)}
+                                        className="w-full p-1 border border-gray-300 rounded-md text-sm font-semibold text-gray-800"
+                                        aria-label="Place name"
+                                    />
+                                    <p className="mt-1 normal-case">{place.formattedAddress}</p>
+                                    <div className="mt-1 flex gap-3">
+                                        <button onClick={() => onShowPlace(place)} className="text-blue-600 hover:underline">Show on map</button>
+                                        <button onClick={() => onRemovePlace(place.id)} className="text-red-600 hover:underline">Remove</button>
+                                    </div>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        <tr>
+                            <th scope="row" className={`${cellClass} font-medium text-gray-600`}>Incidents</th>
+                            {summaries.map((summary, i) => (
+                                <td key={places[i].id} className={`${cellClass} text-lg font-semibold ${summary.count === lowest(summaries.map(s => s.count)) ? 'text-green-700' : ''}`}>
+                                    {summary.count}
+                                </td>
+                            ))}
+                        </tr>
+                        {newIncidentKeys.size > 0 && (
+                            <tr>
+                                <th scope="row" className={`${cellClass} font-medium text-gray-600`}>New since last visit</th>
+                                {summaries.map((summary, i) => (
+                                    <td key={places[i].id} className={`${cellClass} font-semibold ${summary.newCount > 0 ? 'text-cyan-700' : ''}`}>
+                                        {summary.newCount}
+                                    </td>
+                                ))}
+                            </tr>
+                        )}
+                        <tr>
+                            <th scope="row" className={`${cellClass} font-medium text-gray-600`} title={`Sum of severity weights (${getSeverityOrder(taxonomy).filter(severity => severity !== 'Default').map(severity => `${severity} ${getSeverityWeights(taxonomy)[severity]}`).join(', ')})`}>
+                                Severity-weighted score
+                            </th>
+                            {summaries.map((summary, i) => (
+                                <td key={places[i].id} className={`${cellClass} font-semibold ${summary.severityScore === lowest(summaries.map(s => s.severityScore)) ? 'text-green-700' : ''}`}>
+                                    {summary.severityScore}
+                                </td>
+                            ))}
+                        </tr>
+                        <tr>
+                            <th scope="row" className={`${cellClass} font-medium text-gray-600`}>
+                                Night-time share
+                                <span className="block text-xs font-normal text-gray-500">{formatHourLabel(nightStartHour)} – {formatHourLabel(nightEndHour)}</span>
+                            </th>
+                            {summaries.map((summary, i) => (
+                                <td key={places[i].id} className={cellClass}>
+                                    {summary.knownTimeCount > 0 ? (
+                                        <>
+                                            <span className="font-semibold">{Math.round((summary.nightCount / summary.knownTimeCount) * 100)}%</span>
+                                            <span className="block text-xs text-gray-500">{summary.nightCount} of {summary.knownTimeCount} with a known time</span>
+                                        </>
+                                    ) : '—'}
+                                </td>
+                            ))}
+                        </tr>
+                        {rowCategories.map(category => (
+                            <tr key={category}>
+                                <th scope="row" className={`${cellClass} font-normal text-gray-700`}>
+                                    <span className="w-3 h-3 rounded-sm mr-2 inline-block align-middle" style={{ backgroundColor: categoryColorMap[category] || '#9CA3AF' }}></span>
+                                    {category}
+                                </th>
+                                {summaries.map((summary, i) => (
+                                    <td key={places[i].id} className={cellClass}>{summary.categoryCounts[category] ?? 0}</td>
+                                ))}
+                            </tr>
+                        ))}
+                        <tr>
+                            <th scope="row" className={`${cellClass} font-medium text-gray-600`}>Nearest incidents</th>
+                            {summaries.map((summary, i) => (
+                                <td key={places[i].id} className={cellClass}>
+                                    {summary.nearest.length === 0 ? '—' : (
+                                        <ul className="space-y-1">
+                                            {summary.nearest.map(({ incident, distance }) => (
+                                                <li key={incidentKey(incident)}>
+                                                    <button onClick={() => onSelectIncident(incident)} className="text-left hover:underline">
+                                                        <span className="text-gray-500">{formatDistance(distance)}</span> · {incident.offense_type}
+                                                        <span className="block text-xs text-gray-500">{incident.date} · {formatIncidentTime(incident.time)}</span>
+                                                    </button>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </td>
+                            ))}
+                        </tr>
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
+
 export default function Home() {
   const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
 
@@ -333,47 +2613,127 @@ export default function Home() {
   const [reportDateStart, setReportDateStart] = useState('');
   const [reportDateEnd, setReportDateEnd] = useState('');
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
-  // --- NEW: State for imprecise location filter ---
-  const [hideImpreciseLocations, setHideImpreciseLocations] = useState(true); // Default to ON
-
-  // Ensure incidentData is an array - Wrapped in useMemo
-  const allIncidents: Incident[] = useMemo(() => Array.isArray(incidentData) ? incidentData : [], []);
-
-  // --- Helper function to parse M/D/YYYY to UTC Date ---
-  const parseMDYToUTCDate = (dateString: string | null | undefined): Date | null => {
-    if (!dateString) return null;
-    const parts = dateString.split('/');
-    if (parts.length !== 3) {
-      console.warn(`Unexpected date format encountered (expected M/D/YYYY): ${dateString}`);
-      return null; // Expect M/D/YYYY
-    }
+  const [selectedSeverities, setSelectedSeverities] = useState<string[]>([]);
+  // Route/intersection incidents: hidden (default), shown as hollow markers, or shown with their approximate areas
+  const [locationFilter, setLocationFilter] = useState<LocationFilter>('precise');
+  // Time of day filter: hours 0-24, start inclusive / end exclusive; wraps past midnight when start >= end
+  const [timeStartHour, setTimeStartHour] = useState(0);
+  const [timeEndHour, setTimeEndHour] = useState(24);
+  const [includeUnknownTime, setIncludeUnknownTime] = useState(true);
+  // Polygons/rectangles drawn on the map; incidents inside any of them pass
+  const [drawnAreas, setDrawnAreas] = useState<DrawnArea[]>([]);
 
-    const month = parseInt(parts[0], 10);
-    const day = parseInt(parts[1], 10);
-    const year = parseInt(parts[2], 10);
+  // --- URL State ---
+  // The map mounts only after the query string has been read, so it can start from the linked view
+  const [isUrlStateLoaded, setIsUrlStateLoaded] = useState(false);
+  const [initialMapViewState, setInitialMapViewState] = useState<MapViewState>(() => getDefaultMapViewState(defaultDataSource));
+  const [mapViewState, setMapViewState] = useState<MapViewState>(() => getDefaultMapViewState(defaultDataSource));
 
-    // Basic validation
-    if (isNaN(month) || isNaN(day) || isNaN(year) ||
-        month < 1 || month > 12 || day < 1 || day > 31 || year < 1900 || year > 3000) { // Adjusted year range slightly
-        console.warn(`Invalid date components parsed from: ${dateString}`);
-        return null;
-    }
+  // --- Selection shared by the map and the table ---
+  const [activeTab, setActiveTab] = useState<'map' | 'table' | 'compare'>('map');
+  const [selectedIncidentKey, setSelectedIncidentKey] = useState<string | null>(null);
+  const [mapFocusRequest, setMapFocusRequest] = useState<{ incidentKey: string } | null>(null);
+  const [boundsFocusRequest, setBoundsFocusRequest] = useState<{ bounds: BoundsLiteral } | null>(null);
 
-    // Create Date object using UTC values
-    // Note: Month is 0-indexed in Date constructor
-    const utcDate = new Date(Date.UTC(year, month - 1, day));
-
-    // Double-check that the constructed date matches the input parts,
-    // as Date.UTC can sometimes adjust invalid day/month combinations (e.g., Feb 30 becomes Mar 2)
-    if (utcDate.getUTCFullYear() !== year ||
-        utcDate.getUTCMonth() !== month - 1 ||
-        utcDate.getUTCDate() !== day) {
-         console.warn(`Date constructor adjusted potentially invalid date components for: ${dateString}`);
-         return null; // Treat adjusted dates as invalid for strict parsing
-    }
+  // --- Saved Places (persisted in localStorage) ---
+  const [savedPlaces, setSavedPlaces] = useState<SavedPlace[]>([]);
+  const [areSavedPlacesLoaded, setAreSavedPlacesLoaded] = useState(false);
+  const [placeFocusRequest, setPlaceFocusRequest] = useState<{ place: SavedPlace } | null>(null);
 
-    return utcDate;
-  };
+  // --- Timeline Playback State ---
+  const [isTimelineActive, setIsTimelineActive] = useState(false);
+  const [timelineDayIndex, setTimelineDayIndex] = useState(0);
+  const [timelineWindowDays, setTimelineWindowDays] = useState(0);
+  const [isTimelinePlaying, setIsTimelinePlaying] = useState(false);
+  const [timelineSpeed, setTimelineSpeed] = useState(timelineSpeeds[1]);
+
+  // --- Incident Data (loaded from /api/incidents rather than bundled into the page) ---
+  // The city comes from ?city= and is fixed for the page load; the switcher navigates to a fresh page
+  const [dataSource, setDataSource] = useState<DataSource>(defaultDataSource);
+  const [allIncidents, setAllIncidents] = useState<Incident[]>([]);
+  const [dataStatus, setDataStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const { taxonomy } = dataSource;
+
+  useEffect(() => {
+    const source = findDataSource(new URLSearchParams(window.location.search).get('city')) ?? defaultDataSource;
+    setDataSource(source);
+    let isCancelled = false;
+    fetchAllIncidents(source)
+      .then(incidents => {
+        if (isCancelled) return;
+        setAllIncidents(incidents);
+        setDataStatus('ready');
+      })
+      .catch(error => {
+        if (isCancelled) return;
+        console.error("Error loading incidents:", error);
+        setDataStatus('error');
+      });
+    return () => { isCancelled = true; };
+  }, []);
+
+  // Saved places are per data source, so they're read once the source from ?city= is known
+  useEffect(() => {
+    if (dataStatus === 'loading') return;
+    setSavedPlaces(loadSavedPlaces(dataSource));
+    setAreSavedPlacesLoaded(true);
+  }, [dataSource, dataStatus]);
+
+  useEffect(() => {
+    if (areSavedPlacesLoaded) storeSavedPlaces(dataSource, savedPlaces);
+  }, [areSavedPlacesLoaded, dataSource, savedPlaces]);
+
+  // Optional street lines for the fallback map and route-level incidents; without them routes get a circle
+  const [streets, setStreets] = useState<StreetLine[]>([]);
+
+  useEffect(() => {
+    if (dataStatus !== 'ready' || !dataSource.streetsUrl) return;
+    let isCancelled = false;
+    fetch(dataSource.streetsUrl)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!isCancelled && data) setStreets(parseStreetGeoJson(data));
+      })
+      .catch(error => console.warn("Street lines unavailable:", error));
+    return () => { isCancelled = true; };
+  }, [dataSource, dataStatus]);
+
+  // Restore filters and map view from the query string once the data has loaded
+  useEffect(() => {
+    if (dataStatus === 'loading' || isUrlStateLoaded) return;
+    const { filters, view, selectedIncidentKey: linkedIncidentKey } = parseUrlState(window.location.search, allIncidents, dataSource);
+    setIncidentDateStart(filters.incidentDateStart);
+    setIncidentDateEnd(filters.incidentDateEnd);
+    setReportDateStart(filters.reportDateStart);
+    setReportDateEnd(filters.reportDateEnd);
+    setSelectedCategories(filters.selectedCategories);
+    setSelectedSeverities(filters.selectedSeverities);
+    setLocationFilter(filters.locationFilter);
+    setTimeStartHour(filters.timeStartHour);
+    setTimeEndHour(filters.timeEndHour);
+    setIncludeUnknownTime(filters.includeUnknownTime);
+    setDrawnAreas(filters.drawnAreas);
+    setInitialMapViewState(view);
+    setMapViewState(view);
+    setSelectedIncidentKey(linkedIncidentKey);
+    setIsUrlStateLoaded(true);
+  }, [allIncidents, dataSource, dataStatus, isUrlStateLoaded]);
+
+  // Current filter values as one object (for the URL and export filenames)
+  const filterState: FilterState = useMemo(() => ({
+    incidentDateStart, incidentDateEnd, reportDateStart, reportDateEnd,
+    selectedCategories, selectedSeverities, locationFilter, timeStartHour, timeEndHour, includeUnknownTime, drawnAreas,
+  }), [incidentDateStart, incidentDateEnd, reportDateStart, reportDateEnd, selectedCategories, selectedSeverities, locationFilter, timeStartHour, timeEndHour, includeUnknownTime, drawnAreas]);
+
+  // Mirror the current state into the query string (replaceState, so no history spam)
+  useEffect(() => {
+    if (!isUrlStateLoaded) return;
+    const search = serializeUrlState(filterState, mapViewState, selectedIncidentKey, allIncidents, dataSource);
+    const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`;
+    if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+      window.history.replaceState(window.history.state, '', url);
+    }
+  }, [isUrlStateLoaded, allIncidents, dataSource, mapViewState, selectedIncidentKey, filterState]);
 
   // --- Get Unique Offense Categories - SORTED BY SEVERITY ---
   const uniqueCategories = useMemo(() => {
@@ -383,158 +2743,155 @@ export default function Home() {
               categories.add(incident.offense_category);
           }
       });
-      // Convert Set to Array and sort using custom severity logic
-      return Array.from(categories).sort((a, b) => {
-          const severityA = getCategorySeverityLevel(a);
-          const severityB = getCategorySeverityLevel(b);
-          const indexA = severityOrder.indexOf(severityA);
-          const indexB = severityOrder.indexOf(severityB);
-
-          // If severity is different, sort by severity order
-          if (indexA !== indexB) {
-              return indexA - indexB;
-          }
-          // If severity is the same, sort alphabetically
-          return a.localeCompare(b);
-      });
-  }, [allIncidents]); // Recalculate only if allIncidents changes
+      // Sort by the taxonomy's severity order
+      return sortCategoriesBySeverity(Array.from(categories), taxonomy);
+  }, [allIncidents, taxonomy]); // Recalculate only if the data changes
+
+  // Severity tiers that occur in the data, most severe first (an offense type override can lift an incident above its category's tier)
+  const availableSeverities = useMemo(() => {
+      const present = new Set(allIncidents.map(incident => getIncidentSeverityLevel(incident, taxonomy)));
+      return getSeverityOrder(taxonomy).filter(severity => present.has(severity));
+  }, [allIncidents, taxonomy]);
+
+  // Approximate ZIP outlines from the whole dataset, so they don't change with the filters
+  const zipRegions = useMemo(() => buildZipRegions(allIncidents, dataSource.bounds), [allIncidents, dataSource]);
+
+  // Period covered by the loaded police logs
+  const logDateRange = useMemo(() => computeLogDateRange(allIncidents), [allIncidents]);
 
   // --- NEW: Generate Category Color Map ---
   const categoryColorMap = useMemo(() => {
       const map: CategoryColorMap = {}; // Use interface type
       uniqueCategories.forEach(category => {
-          map[category] = assignColorByCategory(category);
+          map[category] = getCategoryColor(category, taxonomy);
       });
       return map;
-  }, [uniqueCategories]); // Depends only on the unique categories list
+  }, [uniqueCategories, taxonomy]); // Depends only on the unique categories list
 
-  // --- Filtering Logic ---
-   const filteredIncidents = useMemo(() => {
-    // Define imprecise types (can be expanded)
-    const impreciseLocationTypes = ['route', 'intersection']; // Lowercase for easier matching
+  // --- New Since Last Visit (localStorage, per data source) ---
+  // The baseline is read once the logs have loaded: this visit's (sessionStorage), else the previous visit's
+  // (localStorage), else the newest log. The previous-visit date then moves up to this visit's newest log.
+  const [lastSeenLogTs, setLastSeenLogTs] = useState<number | null>(null);
+  const [showOnlyNew, setShowOnlyNew] = useState(false);
 
-    return allIncidents.filter(incident => {
-      // --- NEW: Imprecise Location Filter ---
-      if (hideImpreciseLocations && incident.location_interpretation && impreciseLocationTypes.includes(incident.location_interpretation.toLowerCase())) {
-          return false;
-      }
+  useEffect(() => {
+    if (dataStatus !== 'ready' || !logDateRange) return;
+    const previousVisitTs = loadLastSeenLogTs(window.localStorage, dataSource);
+    const baseline = loadLastSeenLogTs(window.sessionStorage, dataSource) ?? previousVisitTs ?? logDateRange.endTs;
+    storeLastSeenLogTs(window.sessionStorage, dataSource, baseline);
+    // Never backwards, e.g. when offline with older cached logs
+    storeLastSeenLogTs(window.localStorage, dataSource, Math.max(previousVisitTs ?? 0, logDateRange.endTs));
+    setLastSeenLogTs(baseline);
+  }, [dataSource, dataStatus, logDateRange]);
 
-      // Incident Date Filter (Using robust UTC comparison)
-      if (incidentDateStart || incidentDateEnd) {
-        const incidentDateUTC = parseMDYToUTCDate(incident.date);
+  const newIncidentKeys = useMemo(() => findNewIncidentKeys(allIncidents, lastSeenLogTs), [allIncidents, lastSeenLogTs]);
+  const newIncidents = useMemo(() => allIncidents.filter(incident => newIncidentKeys.has(incidentKey(incident))), [allIncidents, newIncidentKeys]);
 
-        // If incident date couldn't be parsed reliably, exclude it when filtering by date.
-        if (!incidentDateUTC) {
-          // Log is handled within parseMDYToUTCDate
-          return false;
-        }
+  const handleMarkNewAsSeen = () => {
+    if (!logDateRange) return;
+    storeLastSeenLogTs(window.sessionStorage, dataSource, logDateRange.endTs);
+    setLastSeenLogTs(logDateRange.endTs);
+    setShowOnlyNew(false);
+  };
 
-        if (incidentDateStart) {
-          try {
-            // Parse filter start date as UTC midnight. Assumes YYYY-MM-DD format from input.
-            const startDateUTC = new Date(incidentDateStart + 'T00:00:00Z');
-            // Check if the filter date itself is valid
-            if (isNaN(startDateUTC.getTime())) {
-                 console.warn("Invalid filter start date provided:", incidentDateStart);
-                 return false; // Exclude if filter start date is invalid
-            }
-            // Compare UTC timestamps. Exclude if incident date is strictly BEFORE start date.
-            if (incidentDateUTC.getTime() < startDateUTC.getTime()) return false;
-          } catch (e) {
-            // This catch might not be strictly necessary with the isNaN check, but belt-and-suspenders
-            console.warn("Error processing filter start date:", incidentDateStart, e);
-            return false; // Exclude on error
-          }
-        }
+  // --- Filtering Logic (shared with /api/incidents), then the per-user "show only new" toggle ---
+  const applyFilters = useCallback((filters: FilterState) => {
+    const matching = filterIncidents(allIncidents, toIncidentQuery(filters), taxonomy);
+    return showOnlyNew ? matching.filter(incident => newIncidentKeys.has(incidentKey(incident))) : matching;
+  }, [allIncidents, taxonomy, showOnlyNew, newIncidentKeys]);
+  const filteredIncidents = useMemo(() => applyFilters(filterState), [applyFilters, filterState]);
+  // The hourly chart ignores the hour range (and keeps unknown times) so the hours outside it stay visible for comparison
+  const histogramIncidents = useMemo(
+    () => applyFilters({ ...filterState, timeStartHour: 0, timeEndHour: 24, includeUnknownTime: true }),
+    [applyFilters, filterState]
+  );
+  // Saved places are compared on the date, category and severity filters only: the hour range would skew the night-time
+  // share, drawn areas would empty places outside them, and "show only new" is counted in its own row
+  const comparisonIncidents = useMemo(() => filterIncidents(allIncidents, toIncidentQuery({
+    ...defaultFilterState,
+    incidentDateStart: filterState.incidentDateStart,
+    incidentDateEnd: filterState.incidentDateEnd,
+    reportDateStart: filterState.reportDateStart,
+    reportDateEnd: filterState.reportDateEnd,
+    selectedCategories: filterState.selectedCategories,
+    selectedSeverities: filterState.selectedSeverities,
+  }), taxonomy), [allIncidents, filterState, taxonomy]);
 
-        if (incidentDateEnd) {
-          try {
-             // Parse filter end date as UTC midnight. Assumes YYYY-MM-DD format from input.
-            const endDateUTC = new Date(incidentDateEnd + 'T00:00:00Z');
-             // Check if the filter date itself is valid
-            if (isNaN(endDateUTC.getTime())) {
-                 console.warn("Invalid filter end date provided:", incidentDateEnd);
-                 return false; // Exclude if filter end date is invalid
-            }
-            // Compare UTC timestamps. Exclude if incident date is strictly AFTER end date.
-            if (incidentDateUTC.getTime() > endDateUTC.getTime()) return false;
-          } catch (e) {
-             console.warn("Error processing filter end date:", incidentDateEnd, e);
-             return false; // Exclude on error
-          }
-        }
-      }
+  // --- Repeat-Location Hotspots (of the filtered incidents) ---
+  const [isHotspotsVisible, setIsHotspotsVisible] = useState(true);
+  const [selectedHotspotId, setSelectedHotspotId] = useState<string | null>(null);
+  const hotspots = useMemo(() => computeHotspots(filteredIncidents), [filteredIncidents]);
 
-      // Report Date Filter (using police_record_date if available)
-      if (reportDateStart || reportDateEnd) {
-         // Prioritize police_record_date if it exists and is valid
-         const reportDateStr = incident.police_record_date; 
-         let canParseReportDate = false;
-         let reportDate: Date | null = null;
-
-         if (reportDateStr) {
-           try {
-             reportDate = new Date(reportDateStr);
-             // Check if the date is valid after parsing
-             if (!isNaN(reportDate.getTime())) {
-               canParseReportDate = true;
-               reportDate.setHours(0, 0, 0, 0);
-             }
-           } catch { /* ignore parse error, might try str next */ } 
-         }
-
-         // Fallback to police_record_date_str if parsing police_record_date failed or it didn't exist
-         if (!canParseReportDate && incident.police_record_date_str) {
-             // Heuristic parsing for "month-dd-yyyy" format
-             try {
-                 const parts = incident.police_record_date_str.split('-');
-                 if (parts.length === 3) {
-                     // Simple conversion, assumes "monthname-dd-yyyy"
-                     const monthNames = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
-                     const monthIndex = monthNames.indexOf(parts[0].toLowerCase());
-                     if (monthIndex > -1) {
-                         const day = parseInt(parts[1], 10);
-                         const year = parseInt(parts[2], 10);
-                         if (!isNaN(day) && !isNaN(year)) {
-                             reportDate = new Date(year, monthIndex, day);
-                             reportDate.setHours(0, 0, 0, 0);
-                             canParseReportDate = true;
-                         }
-                     }
-                 }
-             } catch(e) {
-                  console.warn("Could not parse police_record_date_str:", incident.police_record_date_str, e);
-             }
-         }
-
-
-         // If we couldn't get a valid report date, skip the filter for this incident
-         if (!canParseReportDate || !reportDate) {
-            // If *only* report date filters are active, and we can't parse, exclude it.
-             if (reportDateStart || reportDateEnd) return false; 
-         } else {
-            // Apply filter if we have a valid reportDate
-            if (reportDateStart) {
-                const startDate = new Date(reportDateStart);
-                startDate.setHours(0, 0, 0, 0);
-                if (reportDate < startDate) return false;
-            }
-            if (reportDateEnd) {
-                const endDate = new Date(reportDateEnd);
-                endDate.setHours(0, 0, 0, 0);
-                if (reportDate > endDate) return false;
-            }
-         }
-      }
+  // Zoom to a hotspot, padding single-address bounds so the map doesn't zoom in all the way
+  const handleSelectHotspot = (hotspot: Hotspot | null) => {
+    setSelectedHotspotId(hotspot?.id ?? null);
+    if (!hotspot) return;
+    const padding = 0.001; // ~100 m
+    const { north, south, east, west } = hotspot.bounds;
+    setBoundsFocusRequest({ bounds: { north: north + padding, south: south - padding, east: east + padding, west: west - padding } });
+  };
 
-      // Offense Category Filter - MODIFIED
-      if (selectedCategories.length > 0 && !selectedCategories.includes(incident.offense_category)) {
-        return false;
-      }
+  // --- Timeline: per-day buckets of the filtered incidents ---
+  const timelineSpan = useMemo(() => computeIncidentDaySpan(allIncidents), [allIncidents]);
+
+  const timelineDayByKey = useMemo(() => {
+    const dayByKey: { [key: string]: number } = {};
+    if (!timelineSpan) return dayByKey;
+    filteredIncidents.forEach(incident => {
+      const timestamp = parseMDYToUTCDate(incident.date)?.getTime();
+      if (timestamp === undefined) return;
+      const day = Math.round((timestamp - timelineSpan.startTs) / dayInMs);
+      if (day >= 0 && day < timelineSpan.dayCount) dayByKey[incidentKey(incident)] = day;
+    });
+    return dayByKey;
+  }, [filteredIncidents, timelineSpan]);
+
+  const timelineDailyCounts = useMemo(() => {
+    const counts = new Array<number>(timelineSpan?.dayCount ?? 0).fill(0);
+    Object.values(timelineDayByKey).forEach(day => { counts[day]++; });
+    return counts;
+  }, [timelineDayByKey, timelineSpan]);
 
-      return true; // Include incident if it passes all filters
+  // Incidents drawn on the map: the filtered set, narrowed to the timeline window while playback is on
+  const mapIncidents = useMemo(() => {
+    if (!isTimelineActive || !timelineSpan) return filteredIncidents;
+    const windowStart = timelineWindowDays === 0 ? 0 : timelineDayIndex - timelineWindowDays + 1;
+    return filteredIncidents.filter(incident => {
+      const day = timelineDayByKey[incidentKey(incident)];
+      return day !== undefined && day >= windowStart && day <= timelineDayIndex;
     });
-  }, [allIncidents, incidentDateStart, incidentDateEnd, reportDateStart, reportDateEnd, selectedCategories, hideImpreciseLocations]); // Added hideImpreciseLocations dependency
+  }, [isTimelineActive, timelineSpan, filteredIncidents, timelineDayByKey, timelineDayIndex, timelineWindowDays]);
+
+  // --- Accessible incident list: the drawn incidents inside the map viewport ---
+  const [isIncidentListVisible, setIsIncidentListVisible] = useState(false);
+  const [mapViewportBounds, setMapViewportBounds] = useState<BoundsLiteral | null>(null);
+  const incidentsInView = useMemo(
+    () => mapViewportBounds ? mapIncidents.filter(incident => isInBounds({ lat: incident.latitude, lng: incident.longitude }, mapViewportBounds)) : mapIncidents,
+    [mapIncidents, mapViewportBounds]
+  );
+
+  // Advance the timeline while playing
+  useEffect(() => {
+    if (!isTimelinePlaying || !timelineSpan) return;
+    const interval = setInterval(() => {
+      setTimelineDayIndex(day => Math.min(day + 1, timelineSpan.dayCount - 1));
+    }, 1000 / timelineSpeed);
+    return () => clearInterval(interval);
+  }, [isTimelinePlaying, timelineSpeed, timelineSpan]);
+
+  // Stop playback on the last day
+  useEffect(() => {
+    if (isTimelinePlaying && timelineSpan && timelineDayIndex >= timelineSpan.dayCount - 1) {
+      setIsTimelinePlaying(false);
+    }
+  }, [isTimelinePlaying, timelineSpan, timelineDayIndex]);
+
+  // Clear the shared selection when the selected incident is filtered out
+  useEffect(() => {
+    if (isUrlStateLoaded && selectedIncidentKey !== null && !filteredIncidents.some(incident => incidentKey(incident) === selectedIncidentKey)) {
+      setSelectedIncidentKey(null);
+    }
+  }, [isUrlStateLoaded, filteredIncidents, selectedIncidentKey]);
 
   // --- Offense Category Checkbox Handler ---
   const handleCategoryChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -550,25 +2907,73 @@ export default function Home() {
       });
   };
 
-  if (!apiKey) {
-    return (
-      <div className="flex items-center justify-center min-h-screen">
-        <p className="text-red-500 font-bold">
-          Error: Google Maps API Key is missing. Please set NEXT_PUBLIC_GOOGLE_MAPS_API_KEY in your .env.local file.
-        </p>
-      </div>
-    );
-  }
+  // --- Map fallback: Google Maps needs the network, the simplified map only the cached street lines ---
+  // Switches once, keeping the current view, when the connection drops or the Maps script fails to load
+  const [mapFallback, setMapFallback] = useState<{ notice: string, viewState: MapViewState | null } | null>(null);
+
+  useEffect(() => {
+    if (!apiKey || mapFallback) return;
+    const switchToFallbackMap = () => setMapFallback({
+      notice: "You're offline, so this is the simplified map. Reload when you're back online for the full map, search and density views.",
+      viewState: isUrlStateLoaded ? mapViewState : null,
+    });
+    if (!navigator.onLine) {
+      switchToFallbackMap();
+      return;
+    }
+    window.addEventListener('offline', switchToFallbackMap);
+    return () => window.removeEventListener('offline', switchToFallbackMap);
+  }, [apiKey, mapFallback, isUrlStateLoaded, mapViewState]);
+
+  // Props for whichever map renderer is active (Google Maps with an API key, the SVG fallback without one)
+  const mapRendererProps: MapRendererProps = {
+    dataSource,
+    incidentsToDisplay: mapIncidents,
+    categoryColorMap,
+    initialViewState: initialMapViewState,
+    onViewStateChange: setMapViewState,
+    selectedIncidentKey,
+    onSelectedIncidentKeyChange: setSelectedIncidentKey,
+    focusRequest: mapFocusRequest,
+    legendCategories: uniqueCategories,
+    selectedCategories,
+    onSelectedCategoriesChange: setSelectedCategories,
+    savedPlaces,
+    onSavePlace: (place) => setSavedPlaces(prev => [...prev, { ...place, id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}` }]),
+    placeFocusRequest,
+    boundsFocusRequest,
+    areas: drawnAreas,
+    onAreasChange: setDrawnAreas,
+    zipRegions,
+    newIncidentKeys,
+    locationFilter,
+    streets,
+    onViewportBoundsChange: setMapViewportBounds,
+  };
 
   return (
     <div className="flex flex-col min-h-screen bg-gray-50">
       {/* Header */}
       <header className="bg-white shadow-md p-4">
         {/* Responsive text size for header */}
-        <h1 className="text-xl sm:text-2xl font-bold text-center text-gray-800">Palo Alto Police Report Log Visualizer</h1>
-         <p className="text-center text-sm text-gray-600 mt-1">
-           *Note: The current map data covers <a href="https://www.paloalto.gov/Departments/Police/Public-Information-Portal/Police-Report-Log" target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-800">incidents reported</a> from February 18, 2025, to April 18, 2025.*
-         </p>
+        <h1 className="text-xl sm:text-2xl font-bold text-center text-gray-800">{dataSource.name} Police Report Log Visualizer</h1>
+        {/* City switcher: a full navigation, since filters, dates and areas don't carry over between cities */}
+        <div className="flex justify-center items-center mt-1 text-sm text-gray-700">
+            <label htmlFor="city-select" className="mr-2">City:</label>
+            <select
+                id="city-select"
+                value={dataSource.id}
+                onChange={(e) => window.location.assign(e.target.value === defaultDataSource.id ? '/' : `/?city=${encodeURIComponent(e.target.value)}`)}
+                className="border border-gray-300 rounded-md px-2 py-0.5 bg-white focus:outline-none focus:ring-1 focus:ring-indigo-500"
+            >
+                {dataSources.map(source => <option key={source.id} value={source.id}>{source.name}</option>)}
+            </select>
+        </div>
+         {logDateRange && (
+           <p className="text-center text-sm text-gray-600 mt-1">
+             *Note: The current map data covers <a href={dataSource.logIndexUrl} target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-800">incidents reported</a> from {formatUTCDay(logDateRange.startTs)}, to {formatUTCDay(logDateRange.endTs)}.*
+           </p>
+         )}
         <div className="flex justify-center items-center space-x-4 text-xs text-blue-600 mt-1">
             <a href="https://github.com/ma08/palo_alto_police_log_analysis" target="_blank" rel="noopener noreferrer" className="hover:underline">View Source Code on GitHub</a>
             <span className="text-gray-400">|</span> {/* Optional Separator */}
@@ -592,13 +2997,28 @@ export default function Home() {
              <div className="p-3 border-t border-green-200 space-y-1">
                <ul className="list-disc list-inside space-y-1">
                  <li><strong>Search:</strong> Use the search bar above the map to find an address or place. A blue pin marks your searched location.</li>
+                 <li><strong>What&apos;s Nearby:</strong> After a search, a ring is drawn around the place and a panel lists the filtered incidents inside it, closest first, with counts by category and severity. Use the slider to change the radius (250 m – 2 km).</li>
                  <li><strong>Explore Incidents:</strong> Click the colored dots to view details about a specific police report, including a link to the original PDF log.</li>
-                 <li><strong>Filter Data:</strong> Expand the &quot;Filter Incidents&quot; section (below) to narrow results by incident date, police log date, or offense category.</li>
-                 <li><strong>Hide Imprecise Locations:</strong> By default, incidents mapped to general areas like routes or intersections are hidden. Uncheck the corresponding box in the &quot;Filter Incidents&quot; section to show these.</li>
-                 <li><strong>Legend:</strong> Colored dots represent incident categories. A special marker is placed on your searched location to distinguish it from other markers.</li>
+                 <li><strong>Keyboard:</strong> Tab to a marker and press Enter to open it; the arrow keys jump to the nearest marker in that direction and Escape closes the pop-up. &quot;Incidents in map view&quot; below the map lists the same incidents as buttons.</li>
+                 <li><strong>Filter Data:</strong> Expand the &quot;Filter Incidents&quot; section (below) to narrow results by incident date, police log date, time of day, severity, or offense category. The hourly chart shows when the incidents matching the other filters happened, with the selected hours highlighted.</li>
+                 <li><strong>Approximate Locations:</strong> By default, incidents the log only places at an intersection or along a street are hidden. In the &quot;Filter Incidents&quot; section you can show them as hollow markers (a ring for intersections, a diamond for streets), or also draw their approximate area: a circle around the intersection, or the highlighted street (a large circle if the street isn&apos;t known). Their pop-ups explain the precision and show the location as written in the log.</li>
+                 <li><strong>Area Filter:</strong> Use &quot;Rectangle&quot; or &quot;Polygon&quot; (top-left of the map) and click on the map to draw an area; only incidents inside your areas are shown. Click an area (or &quot;Edit&quot;) to drag its corners, and draw more areas to combine them.</li>
+                 <li><strong>New Since Last Visit:</strong> Incidents from police logs published since your last visit get a cyan ring and a &quot;new&quot; badge. A banner sums them up by category; tick &quot;Show only new&quot; to hide everything else, or click &quot;Mark as seen&quot; to clear them. The &quot;Compare places&quot; tab counts them near each saved place.</li>
+                 <li><strong>Saved Places:</strong> Click &quot;Save place&quot; in a searched place&apos;s pop-up to keep it (in this browser) with its own ★ pin. The &quot;Compare places&quot; tab shows, for each saved place, the filtered incidents within a chosen radius by category, a severity-weighted score, the share at night and the nearest incidents.</li>
+                 <li><strong>Density View:</strong> Switch the map from &quot;Markers&quot; to &quot;Density&quot; (bottom-left) to see hotspots of the filtered incidents as shaded hexagons, weighted by count or by severity.</li>
+                 <li><strong>Regions:</strong> &quot;Regions&quot; (bottom-left) shades approximate ZIP code areas by incident count or by the share of one category. Click a region for a summary.</li>
+                 <li><strong>Hotspots:</strong> &quot;Repeat-location hotspots&quot; below the map ranks addresses with several filtered incidents (and spots where route or intersection incidents bunch up) with their category mix, first and last date, and whether the second half of the period had more (↑) or fewer (↓) incidents than the first. Click one to zoom the map to it and list its cases.</li>
+                 <li><strong>Timeline:</strong> Tick &quot;Timeline playback&quot; below the map to animate the filtered incidents by incident date, either cumulatively or in a sliding window. The sparkline shows the count per day.</li>
+                 <li><strong>Table:</strong> The &quot;Table&quot; tab lists the filtered incidents with sorting, search and paging. Click a row to jump to that incident on the map.</li>
+                 <li><strong>Statistics:</strong> &quot;Statistics&quot; opens charts of the filtered incidents: per day or week by category, a weekday × hour grid, the most common offense types in each category and how precisely locations were geocoded.</li>
+                 <li><strong>Subscribe:</strong> &quot;Subscribe&quot; gives RSS/Atom and JSON Feed links for the current filters, limited to the radius around your searched place if there is one, so new incidents show up in any feed reader.</li>
+                 <li><strong>Export:</strong> Use &quot;Export&quot; to download the filtered incidents as CSV, GeoJSON or KML, each with a link to the original police log PDF. GeoJSON and KML files include the areas you drew.</li>
+                 <li><strong>Share:</strong> The page address always reflects your filters, map view, searched place and open incident. Use &quot;Copy link&quot; to share it; a link like <code>?case=25-01153</code> opens that incident directly. &quot;Incident page&quot; in an incident&apos;s pop-up gives it a page of its own that shows a preview when pasted into chat.</li>
+                 <li><strong>Offline:</strong> Once loaded, the map, filters, table and statistics keep working without a connection, using the incidents saved on this device; the map switches to a simplified street map. Add the site to your home screen to open it like an app. A bar at the bottom offers a reload when newer incident data is published.</li>
+                 <li><strong>Legend:</strong> Colored dots represent incident categories. The legend at the bottom-right of the map groups them by severity and counts the incidents in view; click a severity tier or category to show only those. A special marker is placed on your searched location to distinguish it from other markers.</li>
                </ul>
                <p>
-                 This is a personal project created by <a href="https://sourya.co/" target="_blank" rel="noopener noreferrer" className="font-medium text-indigo-600 hover:underline">Sourya Kakarla</a> as a useful tool during a house hunt. It&apos;s not affiliated with the City of Palo Alto Police Department.
+                 This is a personal project created by <a href="https://sourya.co/" target="_blank" rel="noopener noreferrer" className="font-medium text-indigo-600 hover:underline">Sourya Kakarla</a> as a useful tool during a house hunt. It&apos;s not affiliated with the {dataSource.agency}.
                </p>
              </div>
            )}
@@ -618,7 +3038,7 @@ export default function Home() {
                <ul className="list-disc list-inside space-y-1">
                  <li>Data is derived from automated processing of public records and may contain errors or omissions.</li>
                  <li>No guarantee of accuracy or completeness is provided.</li>
-                 <li>For authoritative information, always consult the official <a href="https://www.paloalto.gov/Departments/Police/Public-Information-Portal/Police-Report-Log" target="_blank" rel="noopener noreferrer" className="font-semibold text-orange-700 underline hover:text-orange-900">Palo Alto Police Report Logs</a>.</li>
+                 <li>For authoritative information, always consult the official <a href={dataSource.logIndexUrl} target="_blank" rel="noopener noreferrer" className="font-semibold text-orange-700 underline hover:text-orange-900">{dataSource.name} Police Report Logs</a>.</li>
                  <li>Verify specific incidents by clicking the marker and using the &quot;View Original Police Log&quot; link in the pop-up.</li>
                </ul>
              </div>
@@ -693,6 +3113,35 @@ export default function Home() {
                          </button>
                     </div>
 
+                    {/* Severity Filter */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-600 mb-1">Severity</label>
+                        <div className="flex flex-wrap gap-1.5" role="group" aria-label="Severity filter">
+                            {availableSeverities.map(severity => {
+                                const isSelected = selectedSeverities.includes(severity);
+                                return (
+                                    <button
+                                        key={severity}
+                                        onClick={() => setSelectedSeverities(prev => isSelected ? prev.filter(s => s !== severity) : [...prev, severity])}
+                                        className={`px-2 py-1 rounded-md border text-xs ${isSelected ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+                                        aria-pressed={isSelected}
+                                    >
+                                        {severity}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                        <p className="mt-1 text-xs text-gray-500">
+                            {selectedSeverities.length === 0 ? 'All severities shown.' : 'Combined with the category filter below.'}
+                        </p>
+                         <button
+                            onClick={() => setSelectedSeverities([])}
+                            className="mt-1.5 text-xs text-blue-600 hover:underline"
+                         >
+                             Clear Selection
+                         </button>
+                    </div>
+
                     {/* Offense Category Filter - MODIFIED */}
                     <div>
                         <label className="block text-sm font-medium text-gray-600 mb-1">Offense Category(s)</label>
@@ -715,7 +3164,12 @@ export default function Home() {
                                             className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500 mr-2"
                                         />
                                         {/* Allow label to wrap if needed */}
-                                        <label htmlFor={`category-${category}`} className="text-gray-700 cursor-pointer break-words">
+                                        <label
+                                            htmlFor={`category-${category}`}
+                                            className="text-gray-700 cursor-pointer break-words"
+                                            title={`${getCategoryStyle(category, taxonomy).severity}: ${getCategoryStyle(category, taxonomy).description}`}
+                                        >
+                                            <span className="mr-1" aria-hidden="true">{getCategoryStyle(category, taxonomy).icon}</span>
                                             {category}
                                         </label>
                                     </div>
@@ -732,41 +3186,323 @@ export default function Home() {
                          </button>
                     </div>
                 </div>
-                {/* --- NEW: Imprecise Location Filter Checkbox --- */}
-                <div className="mt-4 pt-4 border-t border-gray-100"> {/* Separator line */}
-                    <div className="flex items-center">
-                        <input
-                            type="checkbox"
-                            id="hide-imprecise-locations"
-                            checked={hideImpreciseLocations}
-                            onChange={(e) => setHideImpreciseLocations(e.target.checked)}
-                            className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500 mr-2"
-                        />
-                        <label htmlFor="hide-imprecise-locations" className="text-sm text-gray-700 cursor-pointer">
-                            Hide incidents without precise street addresses (e.g., routes, intersections)
-                        </label>
+                {/* --- Time of Day Filter + Hourly Distribution --- */}
+                <div className="mt-4 pt-4 border-t border-gray-100 grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-600 mb-1">Time of Day</label>
+                        <div className="flex items-center space-x-2 text-sm text-gray-700">
+                            <select
+                                value={timeStartHour}
+                                onChange={(e) => setTimeStartHour(parseInt(e.target.value, 10))}
+                                className="p-1.5 border border-gray-300 rounded-md text-sm text-gray-700 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+                                aria-label="Time of day start hour"
+                            >
+                                {Array.from({ length: 24 }, (_, hour) => (
+                                    <option key={hour} value={hour}>{formatHourLabel(hour)}</option>
+                                ))}
+                            </select>
+                            <span>to</span>
+                            <select
+                                value={timeEndHour}
+                                onChange={(e) => setTimeEndHour(parseInt(e.target.value, 10))}
+                                className="p-1.5 border border-gray-300 rounded-md text-sm text-gray-700 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+                                aria-label="Time of day end hour"
+                            >
+                                {Array.from({ length: 24 }, (_, i) => i + 1).map(hour => (
+                                    <option key={hour} value={hour}>{hour === 24 ? '24:00' : formatHourLabel(hour)}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                            {timeStartHour === 0 && timeEndHour === 24
+                                ? 'Showing all hours.'
+                                : timeStartHour >= timeEndHour
+                                    ? 'Range wraps past midnight.'
+                                    : 'Start is inclusive, end is exclusive.'}
+                        </p>
+                        <div className="flex flex-wrap gap-2 mt-1.5 text-xs">
+                            <button
+                                onClick={() => { setTimeStartHour(22); setTimeEndHour(4); }}
+                                className="text-blue-600 hover:underline"
+                            >
+                                Night (22:00–04:00)
+                            </button>
+                            <button
+                                onClick={() => { setTimeStartHour(0); setTimeEndHour(24); }}
+                                className="text-blue-600 hover:underline"
+                            >
+                                All Day
+                            </button>
+                        </div>
+                        <div className="flex items-center mt-2">
+                            <input
+                                type="checkbox"
+                                id="include-unknown-time"
+                                checked={includeUnknownTime}
+                                onChange={(e) => setIncludeUnknownTime(e.target.checked)}
+                                className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500 mr-2"
+                            />
+                            <label htmlFor="include-unknown-time" className="text-sm text-gray-700 cursor-pointer">
+                                Include incidents with unknown time
+                            </label>
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-600 mb-1">Incidents by Hour (other filters; selected hours highlighted)</label>
+                        <HourlyHistogram incidents={histogramIncidents} startHour={timeStartHour} endHour={timeEndHour} />
                     </div>
                 </div>
+                {/* Approximate (route/intersection) location filter */}
+                <fieldset className="mt-4 pt-4 border-t border-gray-100"> {/* Separator line */}
+                    <legend className="block text-sm font-medium text-gray-600 mb-1">Incidents without a street address (routes, intersections)</legend>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1">
+                        {([
+                            ['precise', 'Hide them (precise locations only)'],
+                            ['all', 'Show as hollow markers'],
+                            ['areas', 'Show with their approximate area'],
+                        ] as [LocationFilter, string][]).map(([value, label]) => (
+                            <label key={value} className="flex items-center text-sm text-gray-700 cursor-pointer">
+                                <input
+                                    type="radio"
+                                    name="location-filter"
+                                    value={value}
+                                    checked={locationFilter === value}
+                                    onChange={() => setLocationFilter(value)}
+                                    className="h-4 w-4 text-indigo-600 border-gray-300 focus:ring-indigo-500 mr-2"
+                                />
+                                {label}
+                            </label>
+                        ))}
+                    </div>
+                </fieldset>
               </div>
             )}
         </div>
 
+        {/* New since last visit */}
+        {lastSeenLogTs !== null && newIncidents.length > 0 && (
+            <NewIncidentsBanner
+                newIncidents={newIncidents}
+                lastSeenLogTs={lastSeenLogTs}
+                categories={uniqueCategories}
+                categoryColorMap={categoryColorMap}
+                showOnlyNew={showOnlyNew}
+                onShowOnlyNewChange={setShowOnlyNew}
+                onMarkSeen={handleMarkNewAsSeen}
+            />
+        )}
+
+        {/* Result count and share link */}
+        <div className="mb-2 flex items-center justify-between">
+            {/* Announced to screen readers as the filters change */}
+            <p className="text-sm text-gray-600" role="status" aria-live="polite" aria-atomic="true">
+                {dataStatus === 'loading' && 'Loading incidents...'}
+                {dataStatus === 'error' && <span className="text-red-600">Could not load incident data. Please try reloading the page.</span>}
+                {dataStatus === 'ready' && `Showing ${filteredIncidents.length} of ${allIncidents.length} incidents`}
+                {dataStatus === 'ready' && drawnAreas.length > 0 && ` inside ${drawnAreas.length} drawn area${drawnAreas.length === 1 ? '' : 's'}`}
+                {dataStatus === 'ready' && showOnlyNew && ' (new since your last visit only)'}
+            </p>
+            <div className="flex items-center gap-2">
+                <Link
+                    href={`/stats${filterQueryString(filterState, dataSource) ? `?${filterQueryString(filterState, dataSource)}` : ''}`}
+                    className="px-3 py-1.5 text-sm rounded-md border border-gray-300 bg-white text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                    Statistics
+                </Link>
+                <FeedMenu
+                    query={feedQueryString(filterState, dataSource, mapViewState.place ? { center: mapViewState.place.position, radiusMeters: mapViewState.radius } : undefined)}
+                    hasPlace={mapViewState.place !== null}
+                />
+                <ExportMenu incidents={filteredIncidents} filters={filterState} dataSource={dataSource} />
+                <CopyLinkButton />
+            </div>
+        </div>
+
+        {/* Tabs */}
+        <div className="mb-2 flex border-b border-gray-300 text-sm font-medium" role="tablist">
+            {(['map', 'table', 'compare'] as const).map(tab => (
+                <button
+                    key={tab}
+                    role="tab"
+                    aria-selected={activeTab === tab}
+                    onClick={() => setActiveTab(tab)}
+                    className={`px-4 py-2 -mb-px border-b-2 focus:outline-none ${activeTab === tab ? 'border-indigo-600 text-indigo-700' : 'border-transparent text-gray-600 hover:text-gray-800'}`}
+                >
+                    {tab === 'map' ? 'Map' : tab === 'table' ? `Table (${filteredIncidents.length})` : `Compare places (${savedPlaces.length})`}
+                </button>
+            ))}
+        </div>
+
         {/* Tab Content */}
         <div className="flex-grow relative"> {/* Added relative positioning for absolute search bar */}
-          {/* Map View - Pass filtered incidents AND color map */}
-          <APIProvider apiKey={apiKey} libraries={['places']}>
+          {/* Map View - Pass filtered incidents AND color map. Kept mounted while hidden so the view survives tab switches. */}
+          <div className={activeTab === 'map' ? '' : 'hidden'}>
+            <a
+                href="#incident-list"
+                className="sr-only focus:not-sr-only focus:absolute focus:top-2 focus:left-2 focus:z-20 focus:px-3 focus:py-1.5 focus:rounded-md focus:bg-white focus:text-indigo-700 focus:shadow-md focus:ring-2 focus:ring-indigo-500"
+            >
+                Skip the map to the list of incidents in view
+            </a>
             <div className="relative w-full h-[65vh] md:h-[70vh] rounded-lg shadow-lg overflow-hidden border border-gray-300">
-               {/* Pass the filtered incidents AND the color map */}
-               <MapContent
-                  incidentsToDisplay={filteredIncidents}
-                  categoryColorMap={categoryColorMap} // Pass the map here
-               />
+               {isUrlStateLoaded && (apiKey && !mapFallback
+                 ? <GoogleMapRenderer
+                     apiKey={apiKey}
+                     onLoadError={() => setMapFallback({ notice: 'Google Maps could not be loaded, so this is the simplified map. Reload to try again.', viewState: mapViewState })}
+                     {...mapRendererProps}
+                   />
+                 : <SvgMapRenderer {...mapRendererProps} initialViewState={mapFallback?.viewState ?? initialMapViewState} notice={mapFallback?.notice} />)}
             </div>
-          </APIProvider>
+
+            {/* Incidents in view, as a list for keyboard and screen-reader users */}
+            <div className="mt-3 bg-white rounded-lg shadow border border-gray-300 overflow-hidden">
+                <button
+                    id="incident-list"
+                    onClick={() => setIsIncidentListVisible(!isIncidentListVisible)}
+                    aria-expanded={isIncidentListVisible}
+                    aria-controls="incident-list-entries"
+                    className="w-full p-3 text-left text-sm font-medium text-gray-700 flex items-center hover:bg-gray-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-indigo-500"
+                >
+                    <span className="mr-2" aria-hidden="true">{isIncidentListVisible ? '▲' : '▼'}</span>
+                    <span>
+                        Incidents in map view ({incidentsInView.length})
+                        <span className="ml-1 text-xs font-normal text-gray-500">choose one to open it on the map</span>
+                    </span>
+                </button>
+                {isIncidentListVisible && (
+                    <div id="incident-list-entries" className="border-t border-gray-200">
+                        <AccessibleIncidentList
+                            incidents={incidentsInView}
+                            taxonomy={taxonomy}
+                            categoryColorMap={categoryColorMap}
+                            selectedIncidentKey={selectedIncidentKey}
+                            newIncidentKeys={newIncidentKeys}
+                            onSelectIncident={(incident) => {
+                                const key = incidentKey(incident);
+                                setSelectedIncidentKey(key);
+                                setMapFocusRequest({ incidentKey: key });
+                            }}
+                        />
+                    </div>
+                )}
+            </div>
+
+            {/* Timeline Playback */}
+            <div className="mt-3 flex items-center">
+                <input
+                    type="checkbox"
+                    id="timeline-active"
+                    checked={isTimelineActive}
+                    onChange={(e) => {
+                        setIsTimelineActive(e.target.checked);
+                        setIsTimelinePlaying(false);
+                        // Start on the last day so turning the timeline on doesn't hide everything
+                        if (e.target.checked && timelineSpan) setTimelineDayIndex(timelineSpan.dayCount - 1);
+                    }}
+                    className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500 mr-2"
+                    disabled={!timelineSpan}
+                />
+                <label htmlFor="timeline-active" className="text-sm text-gray-700 cursor-pointer">
+                    Timeline playback (animate incidents day by day)
+                </label>
+            </div>
+            {isTimelineActive && timelineSpan && (
+                <TimelineControls
+                    startTs={timelineSpan.startTs}
+                    dailyCounts={timelineDailyCounts}
+                    dayIndex={timelineDayIndex}
+                    onDayIndexChange={setTimelineDayIndex}
+                    windowDays={timelineWindowDays}
+                    onWindowDaysChange={setTimelineWindowDays}
+                    isPlaying={isTimelinePlaying}
+                    onPlayingChange={setIsTimelinePlaying}
+                    speed={timelineSpeed}
+                    onSpeedChange={setTimelineSpeed}
+                    visibleCount={mapIncidents.length}
+                    outlierCount={filteredIncidents.length - Object.keys(timelineDayByKey).length}
+                />
+            )}
+
+            {/* Repeat-Location Hotspots */}
+            <div className="mt-4 bg-white rounded-lg shadow border border-gray-300 overflow-hidden">
+                <button
+                    onClick={() => setIsHotspotsVisible(!isHotspotsVisible)}
+                    aria-expanded={isHotspotsVisible}
+                    className="w-full p-3 text-left text-sm font-medium text-gray-700 flex items-center hover:bg-gray-50 focus:outline-none"
+                >
+                    <span className="mr-2">{isHotspotsVisible ? '▲' : '▼'}</span>
+                    <span>
+                        Repeat-location hotspots ({hotspots.length})
+                        <span className="ml-1 text-xs font-normal text-gray-500">addresses and route/intersection spots with more than one filtered incident</span>
+                    </span>
+                </button>
+                {isHotspotsVisible && (
+                    <div className="border-t border-gray-200">
+                        <HotspotPanel
+                            hotspots={hotspots}
+                            categories={uniqueCategories}
+                            categoryColorMap={categoryColorMap}
+                            selectedHotspotId={selectedHotspotId}
+                            onSelectHotspot={handleSelectHotspot}
+                            selectedIncidentKey={selectedIncidentKey}
+                            onSelectIncident={(incident) => {
+                                const key = incidentKey(incident);
+                                setSelectedIncidentKey(key);
+                                setMapFocusRequest({ incidentKey: key });
+                            }}
+                        />
+                    </div>
+                )}
+            </div>
+          </div>
+
+          {/* Table View */}
+          {activeTab === 'table' && (
+            <IncidentTable
+                incidents={filteredIncidents}
+                categoryColorMap={categoryColorMap}
+                selectedIncidentKey={selectedIncidentKey}
+                newIncidentKeys={newIncidentKeys}
+                onSelectIncident={(incident) => {
+                    const key = incidentKey(incident);
+                    setSelectedIncidentKey(key);
+                    setMapFocusRequest({ incidentKey: key });
+                    setActiveTab('map');
+                }}
+            />
+          )}
+
+          {/* Saved Place Comparison */}
+          {activeTab === 'compare' && (
+            <PlaceComparison
+                places={savedPlaces}
+                incidents={comparisonIncidents}
+                categories={uniqueCategories}
+                categoryColorMap={categoryColorMap}
+                taxonomy={taxonomy}
+                newIncidentKeys={newIncidentKeys}
+                onRenamePlace={(id, name) => setSavedPlaces(prev => prev.map(place => place.id === id ? { ...place, name } : place))}
+                onRemovePlace={(id) => setSavedPlaces(prev => prev.filter(place => place.id !== id))}
+                onShowPlace={(place) => {
+                    setPlaceFocusRequest({ place });
+                    setActiveTab('map');
+                }}
+                onSelectIncident={(incident) => {
+                    const key = incidentKey(incident);
+                    setSelectedIncidentKey(key);
+                    setMapFocusRequest({ incidentKey: key });
+                    setActiveTab('map');
+                }}
+            />
+          )}
         </div>
 
-        {/* Footer Notes - Remains empty */}
+        {/* Footer Notes */}
         <footer className="mt-8 text-center text-xs text-gray-500 space-y-2">
+            <p>
+                <Link href={`/data-quality${dataSource === defaultDataSource ? '' : `?city=${dataSource.id}`}`} className="hover:underline">Data quality report</Link>
+                <span className="mx-2 text-gray-400">|</span>
+                <Link href={`/taxonomy${dataSource === defaultDataSource ? '' : `?city=${dataSource.id}`}`} className="hover:underline">Offense taxonomy</Link>
+            </p>
         </footer>
       </main>
     </div>
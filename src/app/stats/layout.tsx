@@ -0,0 +1,11 @@
+import type { Metadata } from "next";
+import { appName } from "@/lib/dataSources";
+
+export const metadata: Metadata = {
+  title: `Statistics | ${appName}`,
+  description: "Charts of police log incidents by day, week, weekday, hour, offense type and location type.",
+};
+
+export default function StatsLayout({ children }: Readonly<{ children: React.ReactNode }>) {
+  return children;
+}
@@ -0,0 +1,326 @@
+"use client"; // Reads the map's filters from the query string and charts the matching incidents in the browser
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from "next/link";
+import { DataSource, defaultDataSource, findDataSource } from '@/lib/dataSources';
+import { filterIncidents } from '@/lib/filters';
+import { defaultFilterState, describeFilters, FilterState, filterQueryString, parseFilterParams, toIncidentQuery } from '@/lib/filterState';
+import {
+  computeIncidentDaySpan,
+  dayInMs,
+  formatHourLabel,
+  formatUTCDay,
+  Incident,
+  isUnknownTime,
+  parseMDYToUTCDate,
+} from '@/lib/incidents';
+import { fetchAllIncidents } from '@/lib/loadIncidents';
+import { getCategoryColor, sortCategoriesBySeverity, Taxonomy } from '@/lib/taxonomy';
+
+type TimeBucket = 'day' | 'week';
+
+const weekdayLabels = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const topOffenseTypeCount = 5;
+
+// Readable labels for location_interpretation values
+const locationInterpretationLabels: { [value: string]: string } = {
+  street_address_or_premise: 'Street address or premise',
+  specific_place: 'Specific place (business, school, park...)',
+  intersection: 'Intersection',
+  route: 'Route (street without a number)',
+};
+
+// Monday (UTC) of the week containing a UTC midnight timestamp
+const startOfWeek = (timestamp: number): number => {
+  const weekday = (new Date(timestamp).getUTCDay() + 6) % 7; // 0 = Monday
+  return timestamp - weekday * dayInMs;
+};
+
+// Count incidents per day or week and category, from the first to the last incident date (old outliers left out)
+const computeTimeSeries = (incidents: Incident[], bucket: TimeBucket) => {
+  const span = computeIncidentDaySpan(incidents);
+  if (!span) return { buckets: [], outlierCount: 0, maxTotal: 0 };
+
+  const bucketSize = bucket === 'day' ? dayInMs : 7 * dayInMs;
+  const firstTs = bucket === 'day' ? span.startTs : startOfWeek(span.startTs);
+  const lastTs = span.startTs + (span.dayCount - 1) * dayInMs;
+  const bucketCount = Math.floor((lastTs - firstTs) / bucketSize) + 1;
+  const buckets = Array.from({ length: bucketCount }, (_, i) => ({
+    startTs: firstTs + i * bucketSize,
+    total: 0,
+    counts: {} as { [category: string]: number },
+  }));
+
+  let outlierCount = 0;
+  incidents.forEach(incident => {
+    const timestamp = parseMDYToUTCDate(incident.date, false)?.getTime();
+    if (timestamp === undefined || timestamp < span.startTs) {
+      outlierCount++;
+      return;
+    }
+    const entry = buckets[Math.floor((timestamp - firstTs) / bucketSize)];
+    entry.total++;
+    entry.counts[incident.offense_category] = (entry.counts[incident.offense_category] || 0) + 1;
+  });
+
+  return { buckets, outlierCount, maxTotal: Math.max(0, ...buckets.map(b => b.total)) };
+};
+
+// Stacked bar chart of incidents per day or week, one color per category
+function TimeSeriesChart({ incidents, categories, taxonomy }: { incidents: Incident[], categories: string[], taxonomy: Taxonomy }) {
+  const [bucket, setBucket] = useState<TimeBucket>('day');
+  const { buckets, outlierCount, maxTotal } = useMemo(() => computeTimeSeries(incidents, bucket), [incidents, bucket]);
+
+  const width = 800;
+  const height = 220;
+  const axisHeight = 20;
+  const barGap = buckets.length > 60 ? 0 : 1;
+  const barWidth = buckets.length > 0 ? width / buckets.length : 0;
+  const labelEvery = Math.max(1, Math.ceil(buckets.length / 8));
+  const buttonClass = (active: boolean) => `px-2 py-1 ${active ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`;
+
+  return (
+    <section className="bg-white rounded-lg shadow border border-gray-200 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h2 className="text-lg font-semibold text-gray-700">Incidents per {bucket} by category</h2>
+        <div className="flex rounded-md overflow-hidden border border-gray-300 text-xs" role="group" aria-label="Time bucket">
+          <button className={buttonClass(bucket === 'day')} onClick={() => setBucket('day')}>Day</button>
+          <button className={buttonClass(bucket === 'week')} onClick={() => setBucket('week')}>Week</button>
+        </div>
+      </div>
+      {buckets.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">No incidents with a valid date.</p>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${width} ${height + axisHeight}`} className="w-full h-auto" role="img" aria-label={`Incidents per ${bucket}, stacked by category`}>
+            {buckets.map((entry, i) => {
+              let y = height;
+              return (
+                <g key={entry.startTs}>
+                  <title>{`${bucket === 'week' ? 'Week of ' : ''}${formatUTCDay(entry.startTs)}: ${entry.total} incident${entry.total === 1 ? '' : 's'}`}</title>
+                  {categories.filter(category => entry.counts[category]).map(category => {
+                    const barHeight = maxTotal > 0 ? (entry.counts[category] / maxTotal) * (height - 4) : 0;
+                    y -= barHeight;
+                    return <rect key={category} x={i * barWidth} y={y} width={Math.max(barWidth - barGap, 0.5)} height={barHeight} fill={getCategoryColor(category, taxonomy)} />;
+                  })}
+                  {i % labelEvery === 0 && (
+                    <text x={i * barWidth} y={height + 14} fontSize="10" fill="#6B7280">
+                      {new Date(entry.startTs).toLocaleDateString('en-US', { timeZone: 'UTC', month: 'short', day: 'numeric' })}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+            <line x1={0} y1={height} x2={width} y2={height} stroke="#D1D5DB" />
+          </svg>
+          <p className="text-xs text-gray-500 mt-1">
+            Tallest bar: {maxTotal} incidents. {bucket === 'week' && 'Weeks start on Monday. '}
+            {outlierCount > 0 && `${outlierCount} incident${outlierCount === 1 ? '' : 's'} with a missing or far-earlier date ${outlierCount === 1 ? 'is' : 'are'} not shown.`}
+          </p>
+          <ul className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-gray-700">
+            {categories.map(category => (
+              <li key={category} className="flex items-center">
+                <span className="w-3 h-3 rounded-sm mr-1.5 inline-block" style={{ backgroundColor: getCategoryColor(category, taxonomy) }}></span>
+                {category}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+}
+
+// Weekday x hour grid shaded by incident count
+function WeekdayHourGrid({ incidents }: { incidents: Incident[] }) {
+  const { grid, maxCount, skipped } = useMemo(() => {
+    const grid = weekdayLabels.map(() => Array<number>(24).fill(0));
+    let skipped = 0;
+    incidents.forEach(incident => {
+      const date = parseMDYToUTCDate(incident.date, false);
+      if (!date || isUnknownTime(incident.time)) {
+        skipped++;
+        return;
+      }
+      grid[(date.getUTCDay() + 6) % 7][Math.floor(incident.time / 60)]++;
+    });
+    return { grid, maxCount: Math.max(0, ...grid.flat()), skipped };
+  }, [incidents]);
+
+  return (
+    <section className="bg-white rounded-lg shadow border border-gray-200 p-4">
+      <h2 className="text-lg font-semibold text-gray-700 mb-3">Weekday × hour of day</h2>
+      <div className="overflow-x-auto">
+        <table className="text-[10px] text-gray-600 border-separate border-spacing-0.5">
+          <thead>
+            <tr>
+              <th></th>
+              {Array.from({ length: 24 }, (_, hour) => (
+                <th key={hour} scope="col" className="font-normal w-6">{hour % 3 === 0 ? hour : ''}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {grid.map((row, weekday) => (
+              <tr key={weekday}>
+                <th scope="row" className="font-normal pr-1 text-left">{weekdayLabels[weekday]}</th>
+                {row.map((count, hour) => (
+                  <td
+                    key={hour}
+                    className="w-6 h-6 rounded-sm text-center"
+                    style={{ backgroundColor: count > 0 ? `rgba(79, 70, 229, ${0.1 + 0.9 * (count / maxCount)})` : '#F3F4F6', color: count / maxCount > 0.5 ? '#FFFFFF' : '#374151' }}
+                    title={`${weekdayLabels[weekday]} ${formatHourLabel(hour)}–${formatHourLabel(hour + 1)}: ${count}`}
+                  >
+                    {count || ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        By incident date and time. {skipped > 0 && `${skipped} incident${skipped === 1 ? '' : 's'} without a valid date or time ${skipped === 1 ? 'is' : 'are'} not included.`}
+      </p>
+    </section>
+  );
+}
+
+// Horizontal bar list used by the breakdown sections
+function BarList({ rows, color = '#6366F1' }: { rows: { label: string, count: number }[], color?: string }) {
+  const maxCount = Math.max(1, ...rows.map(row => row.count));
+  return (
+    <ul className="space-y-1">
+      {rows.map(({ label, count }) => (
+        <li key={label} className="text-xs text-gray-700">
+          <div className="flex justify-between gap-2">
+            <span className="break-words">{label}</span>
+            <span className="font-medium">{count}</span>
+          </div>
+          <div className="h-1.5 mt-0.5 rounded-sm bg-gray-100">
+            <div className="h-1.5 rounded-sm" style={{ width: `${(count / maxCount) * 100}%`, backgroundColor: color }}></div>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Count incidents by a field, largest first
+const countBy = (incidents: Incident[], field: (incident: Incident) => string): { label: string, count: number }[] => {
+  const counts: { [value: string]: number } = {};
+  incidents.forEach(incident => {
+    const value = field(incident);
+    counts[value] = (counts[value] || 0) + 1;
+  });
+  return Object.entries(counts)
+    .map(([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+};
+
+export default function StatsPage() {
+  const [allIncidents, setAllIncidents] = useState<Incident[]>([]);
+  const [dataStatus, setDataStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [filters, setFilters] = useState<FilterState>(defaultFilterState);
+  const [dataSource, setDataSource] = useState<DataSource>(defaultDataSource);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const source = findDataSource(params.get('city')) ?? defaultDataSource;
+    setDataSource(source);
+    setFilters(parseFilterParams(params, source.taxonomy));
+    let isCancelled = false;
+    fetchAllIncidents(source)
+      .then(incidents => {
+        if (isCancelled) return;
+        setAllIncidents(incidents);
+        setDataStatus('ready');
+      })
+      .catch(error => {
+        if (isCancelled) return;
+        console.error("Error loading incidents:", error);
+        setDataStatus('error');
+      });
+    return () => { isCancelled = true; };
+  }, []);
+
+  const { taxonomy } = dataSource;
+  const incidents = useMemo(() => filterIncidents(allIncidents, toIncidentQuery(filters), taxonomy), [allIncidents, filters, taxonomy]);
+  const categories = useMemo(
+    () => sortCategoriesBySeverity(Array.from(new Set(incidents.map(incident => incident.offense_category))), taxonomy),
+    [incidents, taxonomy]
+  );
+
+  const topOffenseTypes = useMemo(() => categories.map(category => {
+    const rows = countBy(incidents.filter(incident => incident.offense_category === category), incident => incident.offense_type);
+    return { category, rows: rows.slice(0, topOffenseTypeCount), otherCount: rows.slice(topOffenseTypeCount).reduce((sum, row) => sum + row.count, 0) };
+  }), [incidents, categories]);
+
+  const locationRows = useMemo(
+    () => countBy(incidents, incident => locationInterpretationLabels[incident.location_interpretation] ?? (incident.location_interpretation || 'Unknown')),
+    [incidents]
+  );
+
+  const mapQuery = filterQueryString(filters, dataSource);
+  const cityQuery = dataSource === defaultDataSource ? '' : `?city=${dataSource.id}`;
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-md p-4">
+        <h1 className="text-xl sm:text-2xl font-bold text-center text-gray-800">{dataSource.name} Statistics</h1>
+        <p className="text-center text-sm text-gray-600 mt-1">
+          {dataStatus === 'ready' ? `${incidents.length} of ${allIncidents.length} incidents` : 'Incidents'} matching: {describeFilters(filters).join(' · ')}
+        </p>
+        <div className="flex justify-center items-center space-x-4 text-xs text-blue-600 mt-1">
+          <Link href={`/${mapQuery ? `?${mapQuery}` : ''}`} className="hover:underline">Back to the map (change filters)</Link>
+          <span className="text-gray-400">|</span>
+          <Link href={`/taxonomy${cityQuery}`} className="hover:underline">Offense taxonomy</Link>
+        </div>
+      </header>
+
+      <main className="flex-grow container mx-auto p-4 md:p-6 lg:p-8 space-y-6 text-gray-800">
+        {dataStatus === 'loading' && <p className="text-sm text-gray-600">Loading incidents...</p>}
+        {dataStatus === 'error' && <p className="text-sm text-red-600">Could not load incident data. Please try reloading the page.</p>}
+        {dataStatus === 'ready' && incidents.length === 0 && (
+          <p className="text-sm text-gray-600">No incidents match these filters.</p>
+        )}
+        {dataStatus === 'ready' && incidents.length > 0 && (
+          <>
+            <TimeSeriesChart incidents={incidents} categories={categories} taxonomy={taxonomy} />
+            <WeekdayHourGrid incidents={incidents} />
+
+            {/* Top offense types */}
+            <section className="bg-white rounded-lg shadow border border-gray-200 p-4">
+              <h2 className="text-lg font-semibold text-gray-700 mb-3">Top offense types by category</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {topOffenseTypes.map(({ category, rows, otherCount }) => (
+                  <div key={category}>
+                    <h3 className="text-sm font-semibold text-gray-700 mb-1.5 flex items-center">
+                      <span className="w-3 h-3 rounded-sm mr-1.5 inline-block" style={{ backgroundColor: getCategoryColor(category, taxonomy) }}></span>
+                      {category}
+                    </h3>
+                    <BarList rows={rows} color={getCategoryColor(category, taxonomy)} />
+                    {otherCount > 0 && <p className="text-xs text-gray-500 mt-1">+{otherCount} other</p>}
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            {/* Location interpretation */}
+            <section className="bg-white rounded-lg shadow border border-gray-200 p-4">
+              <h2 className="text-lg font-semibold text-gray-700 mb-1">Location precision</h2>
+              <p className="text-xs text-gray-500 mb-3">
+                How each incident&apos;s location was geocoded.
+                {filters.locationFilter === 'precise' && ' Routes and intersections are excluded by the "precise locations only" filter.'}
+              </p>
+              <div className="max-w-xl">
+                <BarList rows={locationRows} />
+              </div>
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { DataSource, defaultDataSource, findDataSource } from "@/lib/dataSources";
+import { getSourceIncidents } from "@/lib/incidentData";
+import { findOffenseTypeOverride, findUnmappedCategories, getSeverityOrder } from "@/lib/taxonomy";
+
+type TaxonomyPageProps = { searchParams: Promise<{ city?: string | string[] }> };
+
+const findPageSource = async (searchParams: TaxonomyPageProps['searchParams']): Promise<DataSource> => {
+  const { city } = await searchParams;
+  return findDataSource(typeof city === 'string' ? city : undefined) ?? defaultDataSource;
+};
+
+export async function generateMetadata({ searchParams }: TaxonomyPageProps): Promise<Metadata> {
+  const source = await findPageSource(searchParams);
+  return {
+    title: `Offense Taxonomy | ${source.name} Police Log Visualizer`,
+    description: `How offense categories map to severity tiers, colors and icons in the ${source.name} Police Log Visualizer.`,
+  };
+}
+
+// A data source's taxonomy (?city=, default: the first source) plus any categories in its data it does not cover
+export default async function TaxonomyPage({ searchParams }: TaxonomyPageProps) {
+  const source = await findPageSource(searchParams);
+  const cityQuery = source === defaultDataSource ? '' : `?city=${source.id}`;
+  const { taxonomy } = source;
+  const allIncidents = getSourceIncidents(source);
+  const severityOrder = getSeverityOrder(taxonomy);
+  const unmapped = findUnmappedCategories(allIncidents, taxonomy);
+
+  const categoryCounts: { [category: string]: number } = {};
+  const overrideCounts = taxonomy.offenseTypeOverrides.map(() => 0);
+  allIncidents.forEach(incident => {
+    categoryCounts[incident.offense_category] = (categoryCounts[incident.offense_category] ?? 0) + 1;
+    const overrideIndex = findOffenseTypeOverride(incident, taxonomy);
+    if (overrideIndex >= 0) overrideCounts[overrideIndex]++;
+  });
+
+  const categories = Object.entries(taxonomy.categories).sort(([a, styleA], [b, styleB]) =>
+    severityOrder.indexOf(styleA.severity) - severityOrder.indexOf(styleB.severity) || a.localeCompare(b)
+  );
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-md p-4">
+        <h1 className="text-xl sm:text-2xl font-bold text-center text-gray-800">Offense Taxonomy</h1>
+        <p className="text-center text-sm text-gray-600 mt-1">
+          Version {taxonomy.version} of the taxonomy used for {source.name}. The map, filters and legend all read from it.
+        </p>
+        <div className="flex justify-center items-center space-x-4 text-xs text-blue-600 mt-1">
+          <Link href={`/${cityQuery}`} className="hover:underline">Back to the map</Link>
+          <span className="text-gray-400">|</span>
+          <Link href={`/data-quality${cityQuery}`} className="hover:underline">Data quality report</Link>
+        </div>
+      </header>
+
+      <main className="flex-grow container mx-auto p-4 md:p-6 lg:p-8 space-y-6 text-gray-800">
+        {/* Unmapped categories */}
+        <section className="bg-white rounded-lg shadow border border-gray-200 overflow-hidden">
+          <h2 className="p-4 text-lg font-semibold text-gray-700 border-b border-gray-200">Unmapped Categories ({unmapped.length})</h2>
+          {unmapped.length === 0 ? (
+            <p className="p-4 text-sm text-green-700">Every category in the data is covered by the taxonomy.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <p className="px-4 pt-3 text-sm text-gray-600">
+                These are shown as &ldquo;{taxonomy.fallback.severity}&rdquo; in gray until they are added to the config.
+              </p>
+              <table className="min-w-full text-sm text-left mt-2">
+                <thead className="bg-gray-50 text-xs uppercase text-gray-500">
+                  <tr>
+                    <th scope="col" className="px-4 py-2">Category</th>
+                    <th scope="col" className="px-4 py-2 text-right">Incidents</th>
+                    <th scope="col" className="px-4 py-2">Offense types</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {unmapped.map(({ category, count, offenseTypes }) => (
+                    <tr key={category}>
+                      <td className="px-4 py-1.5 whitespace-nowrap font-medium text-orange-700">{category || '(empty)'}</td>
+                      <td className="px-4 py-1.5 text-right">{count}</td>
+                      <td className="px-4 py-1.5 text-xs">{offenseTypes.join('; ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        {/* Severity tiers */}
+        <section className="bg-white rounded-lg shadow border border-gray-200 overflow-hidden">
+          <h2 className="p-4 text-lg font-semibold text-gray-700 border-b border-gray-200">Severity Tiers</h2>
+          <table className="min-w-full text-sm text-left">
+            <thead className="bg-gray-50 text-xs uppercase text-gray-500">
+              <tr>
+                <th scope="col" className="px-4 py-2">Severity</th>
+                <th scope="col" className="px-4 py-2">Description</th>
+                <th scope="col" className="px-4 py-2 text-right">Density weight</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {taxonomy.severities.map(tier => (
+                <tr key={tier.level}>
+                  <td className="px-4 py-2 whitespace-nowrap font-medium">{tier.level}</td>
+                  <td className="px-4 py-2">{tier.description}</td>
+                  <td className="px-4 py-2 text-right">{tier.weight}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        {/* Categories */}
+        <section className="bg-white rounded-lg shadow border border-gray-200 overflow-hidden">
+          <h2 className="p-4 text-lg font-semibold text-gray-700 border-b border-gray-200">Categories</h2>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm text-left">
+              <thead className="bg-gray-50 text-xs uppercase text-gray-500">
+                <tr>
+                  <th scope="col" className="px-4 py-2">Category</th>
+                  <th scope="col" className="px-4 py-2">Severity</th>
+                  <th scope="col" className="px-4 py-2">Color</th>
+                  <th scope="col" className="px-4 py-2">Description</th>
+                  <th scope="col" className="px-4 py-2 text-right">Incidents</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {categories.map(([category, style]) => (
+                  <tr key={category}>
+                    <td className="px-4 py-2 whitespace-nowrap font-medium">
+                      <span className="mr-1.5" aria-hidden="true">{style.icon}</span>{category}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap">{style.severity}</td>
+                    <td className="px-4 py-2 whitespace-nowrap font-mono text-xs">
+                      <span className="w-3 h-3 rounded-sm mr-1.5 inline-block align-middle" style={{ backgroundColor: style.color }}></span>
+                      {style.color}
+                    </td>
+                    <td className="px-4 py-2">{style.description}</td>
+                    <td className="px-4 py-2 text-right">{categoryCounts[category] ?? 0}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+
+        {/* Offense type overrides */}
+        <section className="bg-white rounded-lg shadow border border-gray-200 overflow-hidden">
+          <h2 className="p-4 text-lg font-semibold text-gray-700 border-b border-gray-200">Offense Type Overrides</h2>
+          <p className="px-4 pt-3 text-sm text-gray-600">
+            Incidents whose offense type matches a pattern take that row&apos;s severity (and color or icon, if set) instead of their category&apos;s. The first match wins.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm text-left mt-2">
+              <thead className="bg-gray-50 text-xs uppercase text-gray-500">
+                <tr>
+                  <th scope="col" className="px-4 py-2">Pattern</th>
+                  <th scope="col" className="px-4 py-2">Applies to</th>
+                  <th scope="col" className="px-4 py-2">Severity</th>
+                  <th scope="col" className="px-4 py-2">Reason</th>
+                  <th scope="col" className="px-4 py-2 text-right">Matches</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {taxonomy.offenseTypeOverrides.map((override, i) => (
+                  <tr key={i}>
+                    <td className="px-4 py-2 whitespace-nowrap font-mono text-xs">/{override.pattern}/{override.flags ?? ''}</td>
+                    <td className="px-4 py-2 whitespace-nowrap">{override.category ?? 'All categories'}</td>
+                    <td className="px-4 py-2 whitespace-nowrap">{override.severity ?? '—'}</td>
+                    <td className="px-4 py-2">{override.description}</td>
+                    <td className="px-4 py-2 text-right">{overrideCounts[i]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { BoundsLiteral, LatLngLiteral } from './geo';
+import { Incident } from './incidents';
+import { defaultTaxonomy, Taxonomy } from './taxonomy';
+
+// A jurisdiction whose police logs the app can show. The map, API and report pages read everything
+// city-specific from here; selected with ?city=<id> (the first source is the default).
+// To add a city: register it below, add its incidents file in incidentData.ts, and (optionally) a
+// streets GeoJSON and taxonomy under public/data/ and src/config/.
+export interface DataSource {
+    id: string; // URL-safe, e.g. "palo-alto"
+    name: string; // City name shown in the header and switcher
+    agency: string; // Publishing agency, for attribution
+    bounds: BoundsLiteral; // Service area: search biasing, geocode validation and ZIP outlines
+    center: LatLngLiteral; // Default map center
+    zoom: number; // Default map zoom
+    logIndexUrl: string; // Public page listing the agency's logs
+    sourceDocumentUrl: (incident: Incident) => string; // The original log an incident came from
+    streetsUrl?: string; // GeoJSON street lines drawn by the fallback map (no Google Maps API key) and highlighted for route-level incidents
+    taxonomy: Taxonomy;
+}
+
+const paloAltoLogIndexUrl = 'https://www.paloalto.gov/Departments/Police/Public-Information-Portal/Police-Report-Log';
+
+// Palo Alto publishes one PDF per log day, e.g. ".../april-07-2025-police-report-log.pdf"
+const paloAltoPoliceLogUrl = (incident: Incident): string => {
+    try {
+        // First try to use the police_record_date_str from the data if available
+        if (incident.police_record_date_str) {
+            // It's already in the format we need (e.g., "april-07-2025")
+            return `https://www.paloalto.gov/files/assets/public/v/2/police-department/public-information-portal/police-report-log/${incident.police_record_date_str}-police-report-log.pdf`;
+        }
+
+        // Fall back to parsing the incident.date if police_record_date_str is not available
+        // Parse the date string (assuming format like "Jan 1, 2024")
+        const date = new Date(incident.date);
+
+        // Format the date to match the PDF URL format
+        const month = date.toLocaleString('en-US', { month: 'long' }).toLowerCase();
+        const day = String(date.getDate()).padStart(2, '0'); // Ensure two digits for day
+        const year = date.getFullYear();
+
+        // Construct the date string like "april-07-2024"
+        const formattedDateStr = `${month}-${day}-${year}`;
+
+        // Create the URL in the format shown in the example
+        return `https://www.paloalto.gov/files/assets/public/v/2/police-department/public-information-portal/police-report-log/${formattedDateStr}-police-report-log.pdf`;
+    } catch (error) {
+        // In case of any parsing errors, return the main police log page
+        console.error("Error generating PDF link:", error);
+        return paloAltoLogIndexUrl;
+    }
+};
+
+export const dataSources: DataSource[] = [
+    {
+        id: 'palo-alto',
+        name: 'Palo Alto',
+        agency: 'City of Palo Alto Police Department',
+        bounds: {
+            north: 37.47, // Approx North lat
+            south: 37.39, // Approx South lat
+            east: -122.07, // Approx East lng
+            west: -122.20  // Approx West lng
+        },
+        center: { lat: 37.4419, lng: -122.1430 },
+        zoom: 13,
+        logIndexUrl: paloAltoLogIndexUrl,
+        sourceDocumentUrl: paloAltoPoliceLogUrl,
+        streetsUrl: '/data/palo-alto-streets.geojson',
+        taxonomy: defaultTaxonomy,
+    },
+];
+
+export const defaultDataSource = dataSources[0];
+
+const baseAppName = 'Police Log Visualizer';
+
+// App name for pages that aren't about one city (site title, installed app, statistics tab title):
+// named after the city while there is only one source
+export const appName = dataSources.length === 1 ? `${defaultDataSource.name} ${baseAppName}` : baseAppName;
+
+// Prefix of the app's localStorage/sessionStorage keys ("policeLogVisualizer"). Taken from the app name without the
+// city, so stored data stays where it is when a city is added; city-specific keys end with the source id.
+export const storageKeyPrefix = baseAppName.split(' ').map((word, i) => i === 0 ? word.toLowerCase() : word).join('');
+// Keys used to start with the Palo Alto app's prefix; they are still read so stored dates and places carry over
+export const legacyStorageKeyPrefix = 'paloAltoIncidents';
+
+// The cities covered, for descriptions, e.g. "Palo Alto" or "Palo Alto and Mountain View"
+export const coveredCityNames = dataSources.length === 1
+    ? defaultDataSource.name
+    : `${dataSources.slice(0, -1).map(source => source.name).join(', ')} and ${dataSources[dataSources.length - 1].name}`;
+
+// Look up a source by its ?city= value
+export const findDataSource = (id: string | null | undefined): DataSource | undefined =>
+    dataSources.find(source => source.id === id);
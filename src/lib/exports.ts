@@ -0,0 +1,144 @@
+import { DataSource } from './dataSources';
+import { FilterState } from './filterState';
+import { DrawnArea, LatLngLiteral } from './geo';
+import { formatIncidentTime, Incident } from './incidents';
+import { escapeXml } from './xml';
+
+// Downloads of the filtered incidents from the map page: CSV, and GeoJSON and KML with the drawn areas,
+// named after the active filters.
+
+export type ExportFormat = 'csv' | 'geojson' | 'kml';
+
+// Every Incident field, in the order used for CSV columns and KML extended data
+const incidentFields: (keyof Incident)[] = [
+    'case_number', 'date', 'time', 'offense_type', 'offense_category', 'location', 'latitude', 'longitude',
+    'formatted_address', 'google_maps_uri', 'place_types', 'location_interpretation', 'police_record_date_str', 'police_record_date',
+];
+
+const escapeCsvValue = (value: string | number | undefined): string => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const incidentsToCsv = (incidents: Incident[], source: DataSource): string => {
+    const header = [...incidentFields, 'time_formatted', 'pdf_url'].join(',');
+    const rows = incidents.map(incident => [
+        ...incidentFields.map(field => escapeCsvValue(incident[field])),
+        escapeCsvValue(formatIncidentTime(incident.time)),
+        escapeCsvValue(source.sourceDocumentUrl(incident)),
+    ].join(','));
+    return [header, ...rows].join('\r\n') + '\r\n';
+};
+
+// A drawn area's outline as a closed ring (first point repeated at the end), as GeoJSON and KML polygons expect
+const areaRing = (area: DrawnArea): LatLngLiteral[] => {
+    const points = area.kind === 'rectangle'
+        ? [
+            { lat: area.bounds.south, lng: area.bounds.west },
+            { lat: area.bounds.south, lng: area.bounds.east },
+            { lat: area.bounds.north, lng: area.bounds.east },
+            { lat: area.bounds.north, lng: area.bounds.west },
+        ]
+        : area.path;
+    return [...points, points[0]];
+};
+
+// Incidents as Point features, followed by the drawn areas that limit them as Polygon features
+export const incidentsToGeoJson = (incidents: Incident[], areas: DrawnArea[], source: DataSource): string => JSON.stringify({
+    type: 'FeatureCollection',
+    features: [
+        ...incidents.map(incident => ({
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: [incident.longitude, incident.latitude] },
+            properties: { ...incident, time_formatted: formatIncidentTime(incident.time), pdf_url: source.sourceDocumentUrl(incident) },
+        })),
+        ...areas.map((area, i) => ({
+            type: 'Feature',
+            geometry: { type: 'Polygon', coordinates: [areaRing(area).map(point => [point.lng, point.lat])] },
+            properties: { drawn_area: i + 1, name: `Area ${i + 1}`, area_kind: area.kind },
+        })),
+    ],
+}, null, 2);
+
+// Incidents as point Placemarks, followed by the drawn areas that limit them as polygon Placemarks
+export const incidentsToKml = (incidents: Incident[], areas: DrawnArea[], source: DataSource, documentName: string): string => {
+    const placemarks = incidents.map(incident => {
+        const extendedData = incidentFields
+            .map(field => `        <Data name="${field}"><value>${escapeXml(String(incident[field] ?? ''))}</value></Data>`)
+            .concat(`        <Data name="pdf_url"><value>${escapeXml(source.sourceDocumentUrl(incident))}</value></Data>`)
+            .join('\n');
+        const description = `${incident.offense_category} · ${incident.date} ${formatIncidentTime(incident.time)}<br/>` +
+            `${incident.formatted_address || incident.location}<br/><a href="${source.sourceDocumentUrl(incident)}">Original police log</a>`;
+        return [
+            '    <Placemark>',
+            `      <name>${escapeXml(`${incident.case_number}: ${incident.offense_type}`)}</name>`,
+            `      <description><![CDATA[${description}]]></description>`,
+            '      <ExtendedData>',
+            extendedData,
+            '      </ExtendedData>',
+            `      <Point><coordinates>${incident.longitude},${incident.latitude},0</coordinates></Point>`,
+            '    </Placemark>',
+        ].join('\n');
+    });
+    const areaPlacemarks = areas.map((area, i) => [
+        '    <Placemark>',
+        `      <name>Area ${i + 1}</name>`,
+        `      <description>Drawn ${area.kind} limiting the exported incidents</description>`,
+        '      <Polygon><outerBoundaryIs><LinearRing><coordinates>',
+        `        ${areaRing(area).map(point => `${point.lng},${point.lat},0`).join(' ')}`,
+        '      </coordinates></LinearRing></outerBoundaryIs></Polygon>',
+        '    </Placemark>',
+    ].join('\n'));
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<kml xmlns="http://www.opengis.net/kml/2.2">',
+        '  <Document>',
+        `    <name>${escapeXml(documentName)}</name>`,
+        ...placemarks,
+        ...areaPlacemarks,
+        '  </Document>',
+        '</kml>',
+        '',
+    ].join('\n');
+};
+
+const slugify = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// Filename stem describing the active filters, e.g. "palo-alto-incidents_2025-03-01-to-2025-03-31_burglary_22h-04h"
+export const buildExportFilename = (filters: FilterState, source: DataSource): string => {
+    const parts = [`${source.id}-incidents`];
+    if (filters.incidentDateStart || filters.incidentDateEnd) {
+        parts.push(`${filters.incidentDateStart || 'start'}-to-${filters.incidentDateEnd || 'end'}`);
+    }
+    if (filters.reportDateStart || filters.reportDateEnd) {
+        parts.push(`log-${filters.reportDateStart || 'start'}-to-${filters.reportDateEnd || 'end'}`);
+    }
+    if (filters.selectedCategories.length > 0) {
+        parts.push(filters.selectedCategories.length <= 3
+            ? filters.selectedCategories.map(slugify).join('+')
+            : `${filters.selectedCategories.length}-categories`);
+    }
+    if (filters.selectedSeverities.length > 0) {
+        parts.push(`severity-${filters.selectedSeverities.map(slugify).join('+')}`);
+    }
+    if (filters.timeStartHour !== 0 || filters.timeEndHour !== 24) {
+        parts.push(`${String(filters.timeStartHour).padStart(2, '0')}h-${String(filters.timeEndHour).padStart(2, '0')}h`);
+    }
+    if (!filters.includeUnknownTime) parts.push('known-time');
+    if (filters.drawnAreas.length > 0) parts.push(`${filters.drawnAreas.length}-area${filters.drawnAreas.length === 1 ? '' : 's'}`);
+    parts.push(filters.locationFilter === 'precise' ? 'precise-only' : 'all-locations');
+    return parts.join('_');
+};
+
+// Trigger a browser download of in-memory content
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoking right after click() can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,145 @@
+import { DataSource, defaultDataSource, findDataSource } from './dataSources';
+import { filterIncidents, parseIncidentQueryParams } from './filters';
+import { getSourceIncidents } from './incidentData';
+import { formatIncidentTime, Incident, parseReportDate } from './incidents';
+import { getIncidentStyle } from './taxonomy';
+import { escapeXml } from './xml';
+
+// Atom (/feed.xml) and JSON Feed (/feed.json) versions of the incidents matching a query, so a filtered view
+// ("burglaries within 1 km of home") can be followed in a feed reader. Entries are grouped by police log, newest first.
+
+// Most police logs included in a feed; older logs drop off as new ones are published
+export const feedLogCount = 14;
+
+export interface FeedLog {
+    logTs: number; // UTC midnight of the police log date
+    incidents: Incident[]; // Sorted by case number
+}
+
+// Group incidents by police log date, newest first, keeping the latest `feedLogCount` logs.
+// Incidents whose log date can't be parsed are left out, since they can't be dated in a feed.
+export const groupIncidentsByLog = (incidents: Incident[]): FeedLog[] => {
+    const byLog: { [logTs: number]: Incident[] } = {};
+    incidents.forEach(incident => {
+        const logTs = parseReportDate(incident)?.getTime();
+        if (logTs !== undefined) (byLog[logTs] ||= []).push(incident);
+    });
+    return Object.keys(byLog)
+        .map(Number)
+        .sort((a, b) => b - a)
+        .slice(0, feedLogCount)
+        .map(logTs => ({ logTs, incidents: byLog[logTs].sort((a, b) => a.case_number.localeCompare(b.case_number)) }));
+};
+
+// Absolute link to the map page with the incident open (the same ?case=&log= form the map writes)
+export const incidentPermalink = (incident: Incident, source: DataSource, origin: string): string => {
+    const params = new URLSearchParams();
+    if (source !== defaultDataSource) params.set('city', source.id);
+    params.set('case', incident.case_number);
+    if (incident.police_record_date_str) params.set('log', incident.police_record_date_str);
+    return `${origin}/?${params.toString()}`;
+};
+
+// Format a UTC timestamp as e.g. "April 7, 2025"
+const formatLogDate = (logTs: number): string =>
+    new Date(logTs).toLocaleDateString('en-US', { timeZone: 'UTC', month: 'long', day: 'numeric', year: 'numeric' });
+
+const entryTitle = (incident: Incident): string => `${incident.offense_type} – ${incident.formatted_address || incident.location}`;
+
+// Short HTML description of an incident, shared by both formats
+const entryHtml = (incident: Incident, source: DataSource, permalink: string): string => {
+    const style = getIncidentStyle(incident, source.taxonomy);
+    return [
+        `<p><strong>${escapeXml(incident.offense_type)}</strong> (${escapeXml(incident.offense_category)}, ${escapeXml(style.severity)} severity)</p>`,
+        `<p>Case ${escapeXml(incident.case_number)} on ${escapeXml(incident.date)} at ${escapeXml(formatIncidentTime(incident.time))}</p>`,
+        `<p>${escapeXml(incident.formatted_address || incident.location)}</p>`,
+        `<p><a href="${escapeXml(permalink)}">View on the map</a> · <a href="${escapeXml(source.sourceDocumentUrl(incident))}">Original police log (PDF)</a></p>`,
+    ].join('');
+};
+
+interface FeedInfo {
+    title: string;
+    feedUrl: string; // This feed, with its query string
+    homeUrl: string; // The map with the same city
+}
+
+// Atom 1.0 document; each entry is dated with its police log date and tagged with its log and category
+export const incidentsToAtom = (logs: FeedLog[], source: DataSource, origin: string, info: FeedInfo): string => {
+    const updated = new Date(logs.length > 0 ? logs[0].logTs : 0).toISOString();
+    const entries = logs.flatMap(({ logTs, incidents }) => incidents.map(incident => {
+        const permalink = incidentPermalink(incident, source, origin);
+        const logDate = new Date(logTs).toISOString();
+        return [
+            '  <entry>',
+            `    <id>${escapeXml(permalink)}</id>`,
+            `    <title>${escapeXml(entryTitle(incident))}</title>`,
+            `    <updated>${logDate}</updated>`,
+            `    <published>${logDate}</published>`,
+            `    <link rel="alternate" type="text/html" href="${escapeXml(permalink)}"/>`,
+            `    <link rel="related" type="application/pdf" href="${escapeXml(source.sourceDocumentUrl(incident))}" title="Original police log"/>`,
+            `    <category term="${escapeXml(`Police log ${formatLogDate(logTs)}`)}"/>`,
+            `    <category term="${escapeXml(incident.offense_category)}"/>`,
+            `    <content type="html">${escapeXml(entryHtml(incident, source, permalink))}</content>`,
+            '  </entry>',
+        ].join('\n');
+    }));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<feed xmlns="http://www.w3.org/2005/Atom">',
+        `  <id>${escapeXml(info.feedUrl)}</id>`,
+        `  <title>${escapeXml(info.title)}</title>`,
+        `  <subtitle>${escapeXml(`Incidents from the latest ${feedLogCount} police report logs of the ${source.agency}, grouped by log date`)}</subtitle>`,
+        `  <updated>${updated}</updated>`,
+        `  <author><name>${escapeXml(source.agency)}</name></author>`,
+        `  <link rel="self" type="application/atom+xml" href="${escapeXml(info.feedUrl)}"/>`,
+        `  <link rel="alternate" type="text/html" href="${escapeXml(info.homeUrl)}"/>`,
+        ...entries,
+        '</feed>',
+        '',
+    ].join('\n');
+};
+
+// JSON Feed 1.1 document; the police log date goes in date_published and the tags, with the incident itself under _incident
+export const incidentsToJsonFeed = (logs: FeedLog[], source: DataSource, origin: string, info: FeedInfo): string => JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: info.title,
+    description: `Incidents from the latest ${feedLogCount} police report logs of the ${source.agency}, grouped by log date`,
+    home_page_url: info.homeUrl,
+    feed_url: info.feedUrl,
+    authors: [{ name: source.agency }],
+    items: logs.flatMap(({ logTs, incidents }) => incidents.map(incident => {
+        const permalink = incidentPermalink(incident, source, origin);
+        return {
+            id: permalink,
+            url: permalink,
+            external_url: source.sourceDocumentUrl(incident),
+            title: entryTitle(incident),
+            content_html: entryHtml(incident, source, permalink),
+            date_published: new Date(logTs).toISOString(),
+            tags: [`Police log ${formatLogDate(logTs)}`, incident.offense_category],
+            _incident: incident,
+        };
+    })),
+}, null, 2);
+
+export type FeedFormat = 'atom' | 'json';
+
+// Build the feed for a request's query string: `city` plus the /api/incidents filter parameters.
+// Returns an error message for an unknown city or malformed filters.
+export const renderFeed = (params: URLSearchParams, origin: string, pathname: string, format: FeedFormat): { body: string } | { error: string } => {
+    const source = params.has('city') ? findDataSource(params.get('city')) : defaultDataSource;
+    if (!source) return { error: `Unknown "city" "${params.get('city')}"` };
+
+    const parsed = parseIncidentQueryParams(params, source.taxonomy);
+    if ('error' in parsed) return { error: parsed.error };
+
+    const logs = groupIncidentsByLog(filterIncidents(getSourceIncidents(source), parsed.query, source.taxonomy));
+    const query = params.toString();
+    const info: FeedInfo = {
+        title: `${source.name} police log incidents${query && query !== `city=${source.id}` ? ' (filtered)' : ''}`,
+        feedUrl: `${origin}${pathname}${query ? `?${query}` : ''}`,
+        homeUrl: `${origin}/${source === defaultDataSource ? '' : `?city=${source.id}`}`,
+    };
+    return { body: format === 'atom' ? incidentsToAtom(logs, source, origin, info) : incidentsToJsonFeed(logs, source, origin, info) };
+};
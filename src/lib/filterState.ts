@@ -0,0 +1,140 @@
+import { formatAreaParam, IncidentQuery, isoDatePattern, parseAreaParam } from './filters';
+import { DrawnArea, LatLngLiteral } from './geo';
+import { DataSource, defaultDataSource } from './dataSources';
+import { getSeverityOrder, Taxonomy } from './taxonomy';
+
+// How route/intersection incidents are shown: hidden, as (hollow) markers, or as markers with approximate areas
+export type LocationFilter = 'precise' | 'all' | 'areas';
+
+// Filter values chosen on the map page and encoded in its query string.
+// Pages that follow the map's filters (e.g. /stats) read the same parameters.
+export interface FilterState {
+    incidentDateStart: string;
+    incidentDateEnd: string;
+    reportDateStart: string;
+    reportDateEnd: string;
+    selectedCategories: string[];
+    selectedSeverities: string[];
+    locationFilter: LocationFilter;
+    timeStartHour: number;
+    timeEndHour: number;
+    includeUnknownTime: boolean;
+    drawnAreas: DrawnArea[];
+}
+
+export const defaultFilterState: FilterState = {
+    incidentDateStart: '',
+    incidentDateEnd: '',
+    reportDateStart: '',
+    reportDateEnd: '',
+    selectedCategories: [],
+    selectedSeverities: [],
+    locationFilter: 'precise',
+    timeStartHour: 0,
+    timeEndHour: 24,
+    includeUnknownTime: true,
+    drawnAreas: [],
+};
+
+// Convert the page's filter state into the shared query used by filterIncidents and /api/incidents
+export const toIncidentQuery = (filters: FilterState): IncidentQuery => ({
+    incidentDateStart: filters.incidentDateStart || undefined,
+    incidentDateEnd: filters.incidentDateEnd || undefined,
+    reportDateStart: filters.reportDateStart || undefined,
+    reportDateEnd: filters.reportDateEnd || undefined,
+    categories: filters.selectedCategories,
+    severities: filters.selectedSeverities,
+    timeStartHour: filters.timeStartHour,
+    timeEndHour: filters.timeEndHour,
+    includeUnknownTime: filters.includeUnknownTime,
+    preciseOnly: filters.locationFilter === 'precise',
+    areas: filters.drawnAreas,
+});
+
+// Read the filter parameters of a map page query string. Unknown or malformed values fall back to defaults.
+export const parseFilterParams = (params: URLSearchParams, taxonomy: Taxonomy): FilterState => {
+    const filters: FilterState = { ...defaultFilterState };
+
+    const dateParam = (name: string) => {
+        const value = params.get(name);
+        return value && isoDatePattern.test(value) ? value : '';
+    };
+    filters.incidentDateStart = dateParam('from');
+    filters.incidentDateEnd = dateParam('to');
+    filters.reportDateStart = dateParam('logFrom');
+    filters.reportDateEnd = dateParam('logTo');
+    filters.selectedCategories = params.getAll('cat').filter(Boolean);
+    filters.selectedSeverities = params.getAll('severity').filter(severity => getSeverityOrder(taxonomy).includes(severity));
+    // imprecise=1 shows route/intersection incidents as markers, imprecise=areas as approximate areas (see parseIncidentQueryParams)
+    const imprecise = params.get('imprecise');
+    filters.locationFilter = imprecise === '1' ? 'all' : imprecise === 'areas' ? 'areas' : 'precise';
+
+    const hoursMatch = /^(\d{1,2})-(\d{1,2})$/.exec(params.get('hours') ?? '');
+    if (hoursMatch) {
+        const start = parseInt(hoursMatch[1], 10);
+        const end = parseInt(hoursMatch[2], 10);
+        if (start >= 0 && start <= 23 && end >= 1 && end <= 24) {
+            filters.timeStartHour = start;
+            filters.timeEndHour = end;
+        }
+    }
+    filters.includeUnknownTime = params.get('unknownTime') !== '0';
+    filters.drawnAreas = params.getAll('area').map(parseAreaParam).filter((area): area is DrawnArea => area !== null);
+
+    return filters;
+};
+
+// Add the non-default filter values to a query string
+export const appendFilterParams = (params: URLSearchParams, filters: FilterState) => {
+    if (filters.incidentDateStart) params.set('from', filters.incidentDateStart);
+    if (filters.incidentDateEnd) params.set('to', filters.incidentDateEnd);
+    if (filters.reportDateStart) params.set('logFrom', filters.reportDateStart);
+    if (filters.reportDateEnd) params.set('logTo', filters.reportDateEnd);
+    filters.selectedCategories.forEach(category => params.append('cat', category));
+    filters.selectedSeverities.forEach(severity => params.append('severity', severity));
+    if (filters.locationFilter !== 'precise') params.set('imprecise', filters.locationFilter === 'areas' ? 'areas' : '1');
+    if (filters.timeStartHour !== 0 || filters.timeEndHour !== 24) params.set('hours', `${filters.timeStartHour}-${filters.timeEndHour}`);
+    if (!filters.includeUnknownTime) params.set('unknownTime', '0');
+    filters.drawnAreas.forEach(area => params.append('area', formatAreaParam(area)));
+};
+
+// Query string holding the data source and filters, for links between pages that share them
+export const filterQueryString = (filters: FilterState, source: DataSource): string => {
+    const params = new URLSearchParams();
+    if (source !== defaultDataSource) params.set('city', source.id);
+    appendFilterParams(params, filters);
+    return params.toString();
+};
+
+// Query string for /feed.xml and /feed.json following the map's filters, optionally limited to a radius around a place.
+// Feeds take the same filter parameters as the map. Police log date ranges are left out so the feed keeps following new logs.
+export const feedQueryString = (filters: FilterState, source: DataSource, near?: { center: LatLngLiteral, radiusMeters: number }): string => {
+    const params = new URLSearchParams();
+    if (source !== defaultDataSource) params.set('city', source.id);
+    appendFilterParams(params, { ...filters, reportDateStart: '', reportDateEnd: '' });
+    if (near) {
+        params.set('near', `${near.center.lat.toFixed(5)},${near.center.lng.toFixed(5)}`);
+        params.set('radius', String(near.radiusMeters));
+    }
+    return params.toString();
+};
+
+// Short human-readable descriptions of the active filters, e.g. ["Incident date 2025-03-01 – 2025-03-31", "Theft, Burglary"]
+export const describeFilters = (filters: FilterState): string[] => {
+    const descriptions: string[] = [];
+    if (filters.incidentDateStart || filters.incidentDateEnd) {
+        descriptions.push(`Incident date ${filters.incidentDateStart || 'start'} – ${filters.incidentDateEnd || 'end'}`);
+    }
+    if (filters.reportDateStart || filters.reportDateEnd) {
+        descriptions.push(`Police log date ${filters.reportDateStart || 'start'} – ${filters.reportDateEnd || 'end'}`);
+    }
+    if (filters.selectedCategories.length > 0) descriptions.push(filters.selectedCategories.join(', '));
+    if (filters.selectedSeverities.length > 0) descriptions.push(`Severity: ${filters.selectedSeverities.join(', ')}`);
+    if (filters.timeStartHour !== 0 || filters.timeEndHour !== 24) {
+        descriptions.push(`${String(filters.timeStartHour).padStart(2, '0')}:00 – ${String(filters.timeEndHour % 24).padStart(2, '0')}:00`);
+    }
+    if (!filters.includeUnknownTime) descriptions.push('Known time only');
+    if (filters.drawnAreas.length > 0) descriptions.push(`${filters.drawnAreas.length} drawn area${filters.drawnAreas.length === 1 ? '' : 's'}`);
+    descriptions.push(filters.locationFilter === 'precise' ? 'Precise locations only' : 'Including approximate locations');
+    return descriptions;
+};
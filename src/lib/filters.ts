@@ -0,0 +1,232 @@
+import { BoundsLiteral, DrawnArea, LatLngLiteral, distanceInMeters, isInArea, isInBounds } from './geo';
+import { Incident, isHourInRange, isImpreciseLocation, isUnknownTime, parseMDYToUTCDate, parseReportDate } from './incidents';
+import { getIncidentSeverityLevel, getSeverityOrder, Taxonomy } from './taxonomy';
+
+// Criteria for narrowing down incidents. Shared by the map page and the /api/incidents route so both filter identically.
+// Every field is optional; an empty query matches everything.
+export interface IncidentQuery {
+    incidentDateStart?: string; // YYYY-MM-DD, inclusive
+    incidentDateEnd?: string; // YYYY-MM-DD, inclusive
+    reportDateStart?: string; // YYYY-MM-DD, inclusive (police log date)
+    reportDateEnd?: string; // YYYY-MM-DD, inclusive (police log date)
+    categories?: string[];
+    severities?: string[];
+    bounds?: BoundsLiteral;
+    near?: { center: LatLngLiteral, radiusMeters: number };
+    areas?: DrawnArea[]; // Incidents inside any of the areas match
+    timeStartHour?: number; // 0-23, inclusive
+    timeEndHour?: number; // 1-24, exclusive; wraps past midnight when <= timeStartHour
+    includeUnknownTime?: boolean; // Defaults to true
+    preciseOnly?: boolean; // Drop route/intersection geocodes
+}
+
+export const isoDatePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+// Parse a YYYY-MM-DD filter value as UTC midnight, or null if invalid
+const parseFilterDate = (value: string): Date | null => {
+    const date = new Date(value + 'T00:00:00Z');
+    if (isNaN(date.getTime())) {
+        console.warn("Invalid filter date provided:", value);
+        return null;
+    }
+    return date;
+};
+
+// Check if a date falls within an inclusive [start, end] range of YYYY-MM-DD strings.
+// An invalid filter date excludes everything, matching the original client-side behavior.
+const isDateInRange = (date: Date, start?: string, end?: string): boolean => {
+    if (start) {
+        const startDate = parseFilterDate(start);
+        if (!startDate || date.getTime() < startDate.getTime()) return false;
+    }
+    if (end) {
+        const endDate = parseFilterDate(end);
+        if (!endDate || date.getTime() > endDate.getTime()) return false;
+    }
+    return true;
+};
+
+// Apply an IncidentQuery to a list of incidents; severities are rated with the data source's taxonomy
+export const filterIncidents = (incidents: Incident[], query: IncidentQuery, taxonomy: Taxonomy): Incident[] => {
+    const {
+        incidentDateStart, incidentDateEnd, reportDateStart, reportDateEnd,
+        categories, severities, bounds, near, areas,
+        timeStartHour = 0, timeEndHour = 24, includeUnknownTime = true, preciseOnly,
+    } = query;
+
+    return incidents.filter(incident => {
+        // Imprecise Location Filter
+        if (preciseOnly && isImpreciseLocation(incident)) {
+            return false;
+        }
+
+        // Time of Day Filter
+        if (isUnknownTime(incident.time)) {
+            if (!includeUnknownTime) return false;
+        } else if (!isHourInRange(Math.floor(incident.time / 60), timeStartHour, timeEndHour)) {
+            return false;
+        }
+
+        // Incident Date Filter (Using robust UTC comparison)
+        if (incidentDateStart || incidentDateEnd) {
+            const incidentDateUTC = parseMDYToUTCDate(incident.date);
+            // If incident date couldn't be parsed reliably, exclude it when filtering by date.
+            if (!incidentDateUTC || !isDateInRange(incidentDateUTC, incidentDateStart, incidentDateEnd)) return false;
+        }
+
+        // Report Date Filter (using police_record_date if available)
+        if (reportDateStart || reportDateEnd) {
+            const reportDate = parseReportDate(incident);
+            // If we can't get a valid report date, exclude it when filtering by report date.
+            if (!reportDate || !isDateInRange(reportDate, reportDateStart, reportDateEnd)) return false;
+        }
+
+        // Offense Category Filter
+        if (categories && categories.length > 0 && !categories.includes(incident.offense_category)) {
+            return false;
+        }
+
+        // Severity Filter
+        if (severities && severities.length > 0 && !severities.includes(getIncidentSeverityLevel(incident, taxonomy))) {
+            return false;
+        }
+
+        // Area Filters
+        const position = { lat: incident.latitude, lng: incident.longitude };
+        if (bounds && !isInBounds(position, bounds)) {
+            return false;
+        }
+        if (near && distanceInMeters(near.center, position) > near.radiusMeters) {
+            return false;
+        }
+        if (areas && areas.length > 0 && !areas.some(area => isInArea(position, area))) {
+            return false;
+        }
+
+        return true; // Include incident if it passes all filters
+    });
+};
+
+// Most vertices accepted for a single polygon area, to keep URLs and point-in-polygon checks bounded
+export const maxAreaVertices = 100;
+
+// Encode an area as "lat,lng;lat,lng;...": two points (south-west;north-east) for a rectangle, three or more for a polygon
+export const formatAreaParam = (area: DrawnArea): string => {
+    const points = area.kind === 'rectangle'
+        ? [{ lat: area.bounds.south, lng: area.bounds.west }, { lat: area.bounds.north, lng: area.bounds.east }]
+        : area.path;
+    return points.map(({ lat, lng }) => `${lat.toFixed(5)},${lng.toFixed(5)}`).join(';');
+};
+
+// Decode an area parameter, or null if malformed
+export const parseAreaParam = (value: string): DrawnArea | null => {
+    const points = value.split(';').map(point => point.split(',').map(Number));
+    if (points.length < 2 || points.length > maxAreaVertices) return null;
+    if (!points.every(point => point.length === 2 && Number.isFinite(point[0]) && Number.isFinite(point[1]) &&
+        Math.abs(point[0]) <= 90 && Math.abs(point[1]) <= 180)) return null;
+    const path = points.map(([lat, lng]) => ({ lat, lng }));
+    if (path.length === 2) {
+        const [a, b] = path;
+        return {
+            kind: 'rectangle',
+            bounds: { south: Math.min(a.lat, b.lat), north: Math.max(a.lat, b.lat), west: Math.min(a.lng, b.lng), east: Math.max(a.lng, b.lng) },
+        };
+    }
+    return { kind: 'polygon', path };
+};
+
+// Largest radius accepted from query parameters (meters)
+export const maxQueryRadiusMeters = 50000;
+
+// Accepted values of the "imprecise" parameter: 1 keeps route/intersection geocodes, "areas" also draws their areas on the map
+export const impreciseParamValues = ['1', 'areas'];
+
+// Parse IncidentQuery values from URL search parameters:
+//   from, to, logFrom, logTo   YYYY-MM-DD date ranges (incident date / police log date)
+//   cat, severity              repeatable, e.g. ?cat=Theft&cat=Burglary&severity=High
+//   bbox                       west,south,east,north
+//   near, radius               lat,lng and meters
+//   area                       repeatable; lat,lng;lat,lng (rectangle corners) or 3+ points (polygon)
+//   hours                      start-end hours, e.g. 22-4 (wraps past midnight)
+//   unknownTime=0              drop incidents without a time
+//   imprecise=1|areas          keep route/intersection geocodes, which are dropped by default (same parameter and
+//                              default as the map page; "areas" only changes how the map draws them)
+// Returns an error message for malformed values instead of silently ignoring them.
+export const parseIncidentQueryParams = (params: URLSearchParams, taxonomy: Taxonomy): { query: IncidentQuery } | { error: string } => {
+    const query: IncidentQuery = {};
+
+    for (const [name, field] of [
+        ['from', 'incidentDateStart'], ['to', 'incidentDateEnd'], ['logFrom', 'reportDateStart'], ['logTo', 'reportDateEnd'],
+    ] as const) {
+        const value = params.get(name);
+        if (value === null || value === '') continue;
+        if (!isoDatePattern.test(value) || isNaN(new Date(value + 'T00:00:00Z').getTime())) {
+            return { error: `Invalid "${name}" date "${value}", expected YYYY-MM-DD` };
+        }
+        query[field] = value;
+    }
+
+    const categories = params.getAll('cat').filter(Boolean);
+    if (categories.length > 0) query.categories = categories;
+
+    const severities = params.getAll('severity').filter(Boolean);
+    const severityOrder = getSeverityOrder(taxonomy);
+    const unknownSeverity = severities.find(severity => !severityOrder.includes(severity));
+    if (unknownSeverity) {
+        return { error: `Unknown severity "${unknownSeverity}", expected one of: ${severityOrder.join(', ')}` };
+    }
+    if (severities.length > 0) query.severities = severities;
+
+    const bbox = params.get('bbox');
+    if (bbox) {
+        const [west, south, east, north] = bbox.split(',').map(Number);
+        if (![west, south, east, north].every(Number.isFinite) || south > north || west > east) {
+            return { error: `Invalid "bbox" "${bbox}", expected west,south,east,north` };
+        }
+        query.bounds = { north, south, east, west };
+    }
+
+    const near = params.get('near');
+    if (near) {
+        const [lat, lng] = near.split(',').map(Number);
+        const radiusMeters = Number(params.get('radius'));
+        if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+            return { error: `Invalid "near" "${near}", expected lat,lng` };
+        }
+        if (!params.has('radius') || !Number.isFinite(radiusMeters) || radiusMeters <= 0 || radiusMeters > maxQueryRadiusMeters) {
+            return { error: `"near" requires a "radius" in meters between 1 and ${maxQueryRadiusMeters}` };
+        }
+        query.near = { center: { lat, lng }, radiusMeters };
+    }
+
+    const areas: DrawnArea[] = [];
+    for (const value of params.getAll('area')) {
+        const area = parseAreaParam(value);
+        if (!area) {
+            return { error: `Invalid "area" "${value}", expected lat,lng;lat,lng (rectangle) or 3-${maxAreaVertices} lat,lng points (polygon)` };
+        }
+        areas.push(area);
+    }
+    if (areas.length > 0) query.areas = areas;
+
+    const hours = params.get('hours');
+    if (hours) {
+        const match = /^(\d{1,2})-(\d{1,2})$/.exec(hours);
+        const start = match ? parseInt(match[1], 10) : NaN;
+        const end = match ? parseInt(match[2], 10) : NaN;
+        if (!(start >= 0 && start <= 23 && end >= 1 && end <= 24)) {
+            return { error: `Invalid "hours" "${hours}", expected start-end with start 0-23 and end 1-24` };
+        }
+        query.timeStartHour = start;
+        query.timeEndHour = end;
+    }
+
+    if (params.get('unknownTime') === '0') query.includeUnknownTime = false;
+    const imprecise = params.get('imprecise');
+    if (imprecise && !impreciseParamValues.includes(imprecise)) {
+        return { error: `Invalid "imprecise" "${imprecise}", expected ${impreciseParamValues.join(' or ')}` };
+    }
+    if (!imprecise) query.preciseOnly = true;
+
+    return { query };
+};
@@ -0,0 +1,67 @@
+// Latitude/longitude pair (same shape as google.maps.LatLngLiteral)
+export interface LatLngLiteral {
+    lat: number;
+    lng: number;
+}
+
+// Bounding box in degrees (same shape as google.maps.LatLngBoundsLiteral, usable on the server)
+export interface BoundsLiteral {
+    north: number;
+    south: number;
+    east: number;
+    west: number;
+}
+
+// Great-circle distance between two points in meters (haversine formula)
+export const distanceInMeters = (a: LatLngLiteral, b: LatLngLiteral): number => {
+    const earthRadius = 6371000;
+    const toRad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = toRad(b.lat - a.lat);
+    const dLng = toRad(b.lng - a.lng);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * earthRadius * Math.asin(Math.sqrt(h));
+};
+
+// Web Mercator projection to world pixel coordinates at a given zoom
+export const projectToWorld = ({ lat, lng }: LatLngLiteral, zoom: number): { x: number, y: number } => {
+    const scale = 256 * 2 ** zoom;
+    const sinLat = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+    return {
+        x: ((lng + 180) / 360) * scale,
+        y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+    };
+};
+
+// Inverse of projectToWorld
+export const unprojectFromWorld = ({ x, y }: { x: number, y: number }, zoom: number): LatLngLiteral => {
+    const scale = 256 * 2 ** zoom;
+    const n = Math.PI - (2 * Math.PI * y) / scale;
+    return {
+        lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+        lng: (x / scale) * 360 - 180,
+    };
+};
+
+// Check whether a point lies inside a bounding box (boxes crossing the antimeridian aren't supported)
+export const isInBounds = ({ lat, lng }: LatLngLiteral, bounds: BoundsLiteral): boolean =>
+    lat >= bounds.south && lat <= bounds.north && lng >= bounds.west && lng <= bounds.east;
+
+// Check whether a point lies inside a polygon (ray casting; vertices in order, closing edge implied)
+export const isInPolygon = ({ lat, lng }: LatLngLiteral, path: LatLngLiteral[]): boolean => {
+    let inside = false;
+    for (let i = 0, j = path.length - 1; i < path.length; j = i++) {
+        const a = path[i], b = path[j];
+        if ((a.lat > lat) !== (b.lat > lat) && lng < ((b.lng - a.lng) * (lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+// A user-drawn area filter. Rectangles keep their bounds so they stay rectangular while edited.
+export type DrawnArea =
+    | { kind: 'rectangle', bounds: BoundsLiteral }
+    | { kind: 'polygon', path: LatLngLiteral[] };
+
+export const isInArea = (point: LatLngLiteral, area: DrawnArea): boolean =>
+    area.kind === 'rectangle' ? isInBounds(point, area.bounds) : isInPolygon(point, area.path);
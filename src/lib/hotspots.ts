@@ -0,0 +1,146 @@
+import { BoundsLiteral, distanceInMeters, LatLngLiteral } from './geo';
+import { computeIncidentDaySpan, dayInMs, Incident, isImpreciseLocation, parseMDYToUTCDate } from './incidents';
+
+// Places where incidents repeat: the same street address (retail centers, transit stops, apartment complexes),
+// or, for route and intersection geocodes that don't name a building, incidents within a short distance of each other.
+export type HotspotKind = 'address' | 'proximity';
+
+export interface HotspotTrend {
+    earlierCount: number; // Incidents dated in the first half of the period
+    recentCount: number; // Incidents dated in the second half
+    direction: 'up' | 'down' | 'steady';
+}
+
+export interface Hotspot {
+    id: string;
+    kind: HotspotKind;
+    label: string;
+    position: LatLngLiteral; // Centroid of the incidents
+    bounds: BoundsLiteral;
+    incidents: Incident[]; // Newest incident date first
+    categoryCounts: { [category: string]: number };
+    firstTs: number | null; // Earliest incident date (UTC midnight)
+    lastTs: number | null; // Latest incident date
+    trend: HotspotTrend;
+}
+
+// Fewest incidents for a place to count as a repeat location
+export const minHotspotCount = 2;
+// Route/intersection incidents closer than this to a group's center join it (meters)
+export const proximityClusterRadiusMeters = 150;
+
+// Address key that ignores case, punctuation, unit numbers and the trailing country,
+// e.g. "180 El Camino Real #12, Palo Alto, CA 94304, USA" -> "180 el camino real palo alto ca 94304"
+export const normalizeAddress = (address: string): string =>
+    address
+        .toLowerCase()
+        .replace(/,\s*usa$/, '')
+        .replace(/\s*(#|\bapt\b|\bunit\b|\bsuite\b|\bste\b)\.?\s*[\w-]+/g, '')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+
+// Label for a place: its address without the country
+const formatHotspotLabel = (address: string): string => address.replace(/,\s*USA$/, '');
+
+// Most common value in a list (first seen wins ties)
+const mostCommon = (values: string[]): string => {
+    const counts: { [value: string]: number } = {};
+    let best = values[0];
+    values.forEach(value => {
+        counts[value] = (counts[value] ?? 0) + 1;
+        if (counts[value] > counts[best]) best = value;
+    });
+    return best;
+};
+
+// Group route/intersection incidents greedily: each joins the first group whose center is within the radius
+const clusterByProximity = (incidents: Incident[]): Incident[][] => {
+    const groups: { center: LatLngLiteral, incidents: Incident[] }[] = [];
+    incidents.forEach(incident => {
+        const point = { lat: incident.latitude, lng: incident.longitude };
+        const group = groups.find(candidate => distanceInMeters(candidate.center, point) <= proximityClusterRadiusMeters);
+        if (!group) {
+            groups.push({ center: point, incidents: [incident] });
+            return;
+        }
+        group.incidents.push(incident);
+        const n = group.incidents.length;
+        group.center = {
+            lat: group.center.lat + (point.lat - group.center.lat) / n,
+            lng: group.center.lng + (point.lng - group.center.lng) / n,
+        };
+    });
+    return groups.map(group => group.incidents);
+};
+
+// Compare the incidents dated before and after the middle of the period (`midTs`)
+const computeTrend = (incidentTimestamps: number[], midTs: number | null): HotspotTrend => {
+    if (midTs === null) return { earlierCount: 0, recentCount: 0, direction: 'steady' };
+    const recentCount = incidentTimestamps.filter(ts => ts >= midTs).length;
+    const earlierCount = incidentTimestamps.filter(ts => ts < midTs).length;
+    // Require a clear change so one or two cases don't flip the arrow
+    const direction = recentCount - earlierCount >= 2 && recentCount >= earlierCount * 1.5 ? 'up'
+        : earlierCount - recentCount >= 2 && earlierCount >= recentCount * 1.5 ? 'down'
+        : 'steady';
+    return { earlierCount, recentCount, direction };
+};
+
+const summarizeHotspot = (id: string, kind: HotspotKind, label: string, incidents: Incident[], midTs: number | null): Hotspot => {
+    const timestamps = incidents.map(incident => parseMDYToUTCDate(incident.date, false)?.getTime() ?? null);
+    const knownTimestamps = timestamps.filter((ts): ts is number => ts !== null);
+    const categoryCounts: { [category: string]: number } = {};
+    incidents.forEach(incident => {
+        categoryCounts[incident.offense_category] = (categoryCounts[incident.offense_category] ?? 0) + 1;
+    });
+    const lats = incidents.map(incident => incident.latitude);
+    const lngs = incidents.map(incident => incident.longitude);
+    const sorted = incidents
+        .map((incident, i) => ({ incident, ts: timestamps[i] ?? -Infinity }))
+        .sort((a, b) => b.ts - a.ts || a.incident.case_number.localeCompare(b.incident.case_number))
+        .map(({ incident }) => incident);
+
+    return {
+        id,
+        kind,
+        label,
+        position: { lat: lats.reduce((sum, lat) => sum + lat, 0) / lats.length, lng: lngs.reduce((sum, lng) => sum + lng, 0) / lngs.length },
+        bounds: { south: Math.min(...lats), north: Math.max(...lats), west: Math.min(...lngs), east: Math.max(...lngs) },
+        incidents: sorted,
+        categoryCounts,
+        firstTs: knownTimestamps.length > 0 ? Math.min(...knownTimestamps) : null,
+        lastTs: knownTimestamps.length > 0 ? Math.max(...knownTimestamps) : null,
+        trend: computeTrend(knownTimestamps, midTs),
+    };
+};
+
+// Rank repeat locations among `incidents`, most incidents first (ties: most recent first).
+// Precise geocodes are grouped by normalized formatted_address; route/intersection geocodes by proximity.
+// Trends compare the two halves of the incident date span of `incidents`.
+export const computeHotspots = (incidents: Incident[]): Hotspot[] => {
+    const span = computeIncidentDaySpan(incidents);
+    const midTs = span ? span.startTs + Math.floor(span.dayCount / 2) * dayInMs : null;
+
+    const byAddress: { [key: string]: Incident[] } = {};
+    const imprecise: Incident[] = [];
+    incidents.forEach(incident => {
+        const key = normalizeAddress(incident.formatted_address);
+        if (isImpreciseLocation(incident) || !key) {
+            imprecise.push(incident);
+        } else {
+            (byAddress[key] ||= []).push(incident);
+        }
+    });
+
+    const hotspots = [
+        ...Object.entries(byAddress)
+            .filter(([, group]) => group.length >= minHotspotCount)
+            .map(([key, group]) => summarizeHotspot(`address:${key}`, 'address', formatHotspotLabel(mostCommon(group.map(i => i.formatted_address))), group, midTs)),
+        ...clusterByProximity(imprecise)
+            .filter(group => group.length >= minHotspotCount)
+            .map(group => {
+                const label = formatHotspotLabel(mostCommon(group.map(i => i.formatted_address || i.location)));
+                return summarizeHotspot(`near:${normalizeAddress(label)}:${group[0].latitude.toFixed(4)},${group[0].longitude.toFixed(4)}`, 'proximity', label, group, midTs);
+            }),
+    ];
+    return hotspots.sort((a, b) => b.incidents.length - a.incidents.length || (b.lastTs ?? 0) - (a.lastTs ?? 0));
+};
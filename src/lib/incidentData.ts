@@ -0,0 +1,28 @@
+import { createHash } from 'crypto';
+import paloAltoIncidentData from '../../public/data/incidents.json';
+import { DataSource, dataSources } from './dataSources';
+import { Incident } from './incidents';
+import { DataQualityReport, validateIncidents } from './validation';
+
+// Raw incident files by data source id. Add an entry when registering a source in dataSources.ts.
+const rawIncidentData: { [sourceId: string]: unknown } = {
+    'palo-alto': paloAltoIncidentData,
+};
+
+// Server-side access to each source's incidents. The raw files are validated once per server process (and at build time);
+// records with errors are dropped here and listed in the data-quality report instead. The version is a hash of the served
+// incidents, so it changes exactly when newer data is deployed.
+const incidentDataBySource: { [sourceId: string]: { incidents: Incident[], report: DataQualityReport, version: string } } = Object.fromEntries(
+    dataSources.map(source => {
+        const { incidents, report } = validateIncidents(rawIncidentData[source.id], source.bounds);
+        if (report.errorCount > 0 || report.warningCount > 0) {
+            console.warn(`${source.name} incidents: ${report.errorCount} error(s), ${report.warningCount} warning(s) across ${report.totalRecords} records. See /data-quality?city=${source.id} for details.`);
+        }
+        const version = createHash('sha1').update(JSON.stringify(incidents)).digest('base64url').slice(0, 16);
+        return [source.id, { incidents, report, version }];
+    })
+);
+
+export const getSourceIncidents = (source: DataSource): Incident[] => incidentDataBySource[source.id].incidents;
+export const getDataQualityReport = (source: DataSource): DataQualityReport => incidentDataBySource[source.id].report;
+export const getSourceDataVersion = (source: DataSource): string => incidentDataBySource[source.id].version;
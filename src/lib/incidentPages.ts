@@ -0,0 +1,127 @@
+import fs from 'fs';
+import path from 'path';
+import { DataSource, dataSources, findDataSource } from './dataSources';
+import { distanceInMeters, LatLngLiteral, projectToWorld } from './geo';
+import { getSourceIncidents } from './incidentData';
+import { getLocationPrecision, Incident, incidentKey, LocationPrecision, parseReportDate } from './incidents';
+import { parseStreetGeoJson, StreetLine } from './streets';
+import { getIncidentStyle } from './taxonomy';
+import { escapeXml } from './xml';
+
+// Data for the per-incident pages (/incident/[city]/[case]): lookup by marker key, nearby incidents,
+// and a small SVG map used when there is no Google Maps API key and for the Open Graph image.
+
+// Incidents within this distance are listed as nearby (meters)
+export const nearbyRadiusMeters = 500;
+// Most nearby incidents listed on a page
+export const nearbyLimit = 10;
+
+export interface NearbyIncident {
+    incident: Incident;
+    distance: number; // Meters
+}
+
+// Route parameters of every incident of every source, for generating the pages at build time
+export const getAllIncidentPageParams = (): { city: string, case: string }[] =>
+    dataSources.flatMap(source => getSourceIncidents(source).map(incident => ({ city: source.id, case: incidentKey(incident) })));
+
+// The incident of the source with this id that has this marker key (case number + police log date), and the source
+export const findIncidentByKey = (sourceId: string, key: string): { incident: Incident, source: DataSource } | null => {
+    const source = findDataSource(sourceId);
+    const incident = source && getSourceIncidents(source).find(candidate => incidentKey(candidate) === key);
+    return source && incident ? { incident, source } : null;
+};
+
+// The source's most recently logged incident with this case number, for links that leave out the log date
+export const findLatestIncidentByCase = (source: DataSource, caseNumber: string): Incident | null => {
+    const matches = getSourceIncidents(source).filter(incident => incident.case_number === caseNumber);
+    return matches.sort((a, b) => (parseReportDate(b)?.getTime() ?? 0) - (parseReportDate(a)?.getTime() ?? 0))[0] ?? null;
+};
+
+// Other incidents of the source within nearbyRadiusMeters, closest first
+export const findNearbyIncidents = (incident: Incident, source: DataSource): NearbyIncident[] => {
+    const key = incidentKey(incident);
+    const position = { lat: incident.latitude, lng: incident.longitude };
+    return getSourceIncidents(source)
+        .filter(other => incidentKey(other) !== key)
+        .map(other => ({ incident: other, distance: distanceInMeters(position, { lat: other.latitude, lng: other.longitude }) }))
+        .filter(({ distance }) => distance <= nearbyRadiusMeters)
+        .sort((a, b) => a.distance - b.distance || a.incident.case_number.localeCompare(b.incident.case_number))
+        .slice(0, nearbyLimit);
+};
+
+// Street lines of a source, read from public/ once per server process (and at build time)
+const streetsBySource: { [sourceId: string]: StreetLine[] } = {};
+export const getSourceStreets = (source: DataSource): StreetLine[] => {
+    if (!streetsBySource[source.id]) {
+        try {
+            streetsBySource[source.id] = source.streetsUrl
+                ? parseStreetGeoJson(JSON.parse(fs.readFileSync(path.join(process.cwd(), 'public', source.streetsUrl), 'utf8')))
+                : [];
+        } catch (error) {
+            console.warn(`Could not read the ${source.name} street lines for incident thumbnails:`, error);
+            streetsBySource[source.id] = [];
+        }
+    }
+    return streetsBySource[source.id];
+};
+
+// Marker shape by location precision, as on the map: a dot, a ring for intersections, a diamond for routes
+const markerSvg = (x: number, y: number, radius: number, color: string, precision: LocationPrecision): string =>
+    precision === 'route'
+        ? `<polygon points="${x},${y - radius - 2} ${x + radius + 2},${y} ${x},${y + radius + 2} ${x - radius - 2},${y}" fill="#FFFFFF" stroke="${color}" stroke-width="4"/>`
+        : precision === 'intersection'
+            ? `<circle cx="${x}" cy="${y}" r="${radius}" fill="#FFFFFF" stroke="${color}" stroke-width="4"/>`
+            : `<circle cx="${x}" cy="${y}" r="${radius}" fill="${color}" stroke="#FFFFFF" stroke-width="3"/>`;
+
+// SVG map of the streets around an incident (centered on it at the given zoom), with nearby incidents as gray dots
+export const renderIncidentThumbnailSvg = (
+    incident: Incident,
+    source: DataSource,
+    nearby: NearbyIncident[],
+    { width, height, zoom }: { width: number, height: number, zoom: number }
+): string => {
+    const center = projectToWorld({ lat: incident.latitude, lng: incident.longitude }, zoom);
+    const toScreen = (point: LatLngLiteral) => {
+        const world = projectToWorld(point, zoom);
+        return { x: world.x - center.x + width / 2, y: world.y - center.y + height / 2 };
+    };
+    const isOnScreen = ({ x, y }: { x: number, y: number }) => x >= -width && y >= -height && x <= 2 * width && y <= 2 * height;
+
+    const streetPaths = getSourceStreets(source)
+        .map(street => street.path.map(toScreen))
+        .filter(points => points.some(isOnScreen))
+        .map(points => points.map(({ x, y }) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' '));
+    const style = getIncidentStyle(incident, source.taxonomy);
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+        `<rect width="${width}" height="${height}" fill="#F3F4F6"/>`,
+        ...streetPaths.map(points => `<polyline points="${points}" fill="none" stroke="#FFFFFF" stroke-width="9" stroke-linecap="round" stroke-linejoin="round"/>`),
+        ...streetPaths.map(points => `<polyline points="${points}" fill="none" stroke="#D1D5DB" stroke-width="5" stroke-linecap="round" stroke-linejoin="round"/>`),
+        ...nearby.map(({ incident: other }) => {
+            const { x, y } = toScreen({ lat: other.latitude, lng: other.longitude });
+            return `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="5" fill="#9CA3AF" stroke="#FFFFFF" stroke-width="1.5"/>`;
+        }),
+        markerSvg(width / 2, height / 2, 14, escapeXml(style.color), getLocationPrecision(incident)),
+        '</svg>',
+    ].join('');
+};
+
+export const svgDataUri = (svg: string): string => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+// Google Static Maps image of the incident and its nearby incidents (needs the Static Maps API enabled for the key)
+export const staticMapUrl = (incident: Incident, source: DataSource, nearby: NearbyIncident[], apiKey: string): string => {
+    const params = new URLSearchParams({
+        center: `${incident.latitude},${incident.longitude}`,
+        zoom: '16',
+        size: '640x320',
+        scale: '2',
+        key: apiKey,
+    });
+    if (nearby.length > 0) {
+        params.append('markers', ['size:tiny', 'color:gray', ...nearby.map(({ incident: other }) => `${other.latitude},${other.longitude}`)].join('|'));
+    }
+    params.append('markers', `color:0x${getIncidentStyle(incident, source.taxonomy).color.replace('#', '')}|${incident.latitude},${incident.longitude}`);
+    return `https://maps.googleapis.com/maps/api/staticmap?${params.toString()}`;
+};
@@ -0,0 +1,183 @@
+// Updated interface to match the actual data structure
+export interface Incident {
+  case_number: string; // Use case_number as the unique key
+  date: string;
+  time: number;
+  offense_type: string;
+  offense_category: string;
+  location: string;
+  latitude: number;
+  longitude: number;
+  formatted_address: string;
+  google_maps_uri: string;
+  place_types: string;
+  location_interpretation: string;
+  police_record_date_str?: string; // Added field for the report date string (e.g., "april-07-2025")
+  police_record_date?: string; // Added field for the formatted report date
+  // Removed 'id' and 'description'
+}
+
+// Stable key for an incident; case numbers can repeat across police logs
+export const incidentKey = (incident: Incident): string => `${incident.case_number}-${incident.police_record_date_str ?? ''}`;
+
+// Path of an incident's own page (/incident/[city]/[case]): the data source id, since case numbers of different
+// agencies can collide, and the incident keyed like the map markers
+export const incidentPagePath = (incident: Incident, sourceId: string): string =>
+    `/incident/${encodeURIComponent(sourceId)}/${encodeURIComponent(incidentKey(incident))}`;
+
+// --- Time of Day Helpers ---
+// `time` is minutes past midnight; the pipeline writes 0 when the log had no usable time.
+export const isUnknownTime = (time: number): boolean => !time || time < 0 || time > 1439;
+
+// Format minutes past midnight as e.g. "9:05 PM"
+export const formatIncidentTime = (time: number): string => {
+    if (isUnknownTime(time)) return 'Unknown';
+    const hours = Math.floor(time / 60);
+    const minutes = time % 60;
+    const period = hours < 12 ? 'AM' : 'PM';
+    const displayHour = hours % 12 === 0 ? 12 : hours % 12;
+    return `${displayHour}:${String(minutes).padStart(2, '0')} ${period}`;
+};
+
+// Format an hour (0-24) as a label for selects and the histogram axis
+export const formatHourLabel = (hour: number): string => `${String(hour % 24).padStart(2, '0')}:00`;
+
+// Check if an hour falls within [startHour, endHour). Wraps past midnight when start >= end (e.g. 22 -> 4).
+export const isHourInRange = (hour: number, startHour: number, endHour: number): boolean => {
+    if (startHour === 0 && endHour === 24) return true;
+    if (startHour < endHour) return hour >= startHour && hour < endHour;
+    return hour >= startHour || hour < endHour;
+};
+
+// --- Helper function to parse M/D/YYYY to UTC Date ---
+// Pass warn = false to skip the console warnings (e.g. when validating the whole dataset)
+export const parseMDYToUTCDate = (dateString: string | null | undefined, warn = true): Date | null => {
+  if (!dateString) return null;
+  const parts = dateString.split('/');
+  if (parts.length !== 3) {
+    if (warn) console.warn(`Unexpected date format encountered (expected M/D/YYYY): ${dateString}`);
+    return null; // Expect M/D/YYYY
+  }
+
+  const month = parseInt(parts[0], 10);
+  const day = parseInt(parts[1], 10);
+  const year = parseInt(parts[2], 10);
+
+  // Basic validation
+  if (isNaN(month) || isNaN(day) || isNaN(year) ||
+      month < 1 || month > 12 || day < 1 || day > 31 || year < 1900 || year > 3000) { // Adjusted year range slightly
+      if (warn) console.warn(`Invalid date components parsed from: ${dateString}`);
+      return null;
+  }
+
+  // Create Date object using UTC values
+  // Note: Month is 0-indexed in Date constructor
+  const utcDate = new Date(Date.UTC(year, month - 1, day));
+
+  // Double-check that the constructed date matches the input parts,
+  // as Date.UTC can sometimes adjust invalid day/month combinations (e.g., Feb 30 becomes Mar 2)
+  if (utcDate.getUTCFullYear() !== year ||
+      utcDate.getUTCMonth() !== month - 1 ||
+      utcDate.getUTCDate() !== day) {
+       if (warn) console.warn(`Date constructor adjusted potentially invalid date components for: ${dateString}`);
+       return null; // Treat adjusted dates as invalid for strict parsing
+  }
+
+  return utcDate;
+};
+
+// --- Helper function to parse the police log (report) date of an incident ---
+// Returns UTC midnight of the log's calendar date (so results don't depend on the timezone),
+// or null if neither date field can be parsed
+export const parseReportDate = (incident: Incident): Date | null => {
+    // Prioritize police_record_date if it exists and is valid
+    const reportDateStr = incident.police_record_date; 
+    let canParseReportDate = false;
+    let reportDate: Date | null = null;
+
+    if (reportDateStr) {
+      try {
+        const parsed = new Date(reportDateStr);
+        // Check if the date is valid after parsing; keep only its calendar date
+        if (!isNaN(parsed.getTime())) {
+          canParseReportDate = true;
+          reportDate = new Date(Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate()));
+        }
+      } catch { /* ignore parse error, might try str next */ } 
+    }
+
+    // Fallback to police_record_date_str if parsing police_record_date failed or it didn't exist
+    if (!canParseReportDate && incident.police_record_date_str) {
+        // Heuristic parsing for "month-dd-yyyy" format
+        try {
+            const parts = incident.police_record_date_str.split('-');
+            if (parts.length === 3) {
+                // Simple conversion, assumes "monthname-dd-yyyy"
+                const monthNames = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
+                const monthIndex = monthNames.indexOf(parts[0].toLowerCase());
+                if (monthIndex > -1) {
+                    const day = parseInt(parts[1], 10);
+                    const year = parseInt(parts[2], 10);
+                    if (!isNaN(day) && !isNaN(year)) {
+                        reportDate = new Date(Date.UTC(year, monthIndex, day));
+                        canParseReportDate = true;
+                    }
+                }
+            }
+        } catch(e) {
+             console.warn("Could not parse police_record_date_str:", incident.police_record_date_str, e);
+        }
+    }
+
+    return canParseReportDate ? reportDate : null;
+};
+
+// Location interpretations that don't pin down a street address
+export const impreciseLocationTypes = ['route', 'intersection']; // Lowercase for easier matching
+
+export const isImpreciseLocation = (incident: Incident): boolean =>
+    !!incident.location_interpretation && impreciseLocationTypes.includes(incident.location_interpretation.toLowerCase());
+
+// How precisely an incident's coordinates locate it: a street address or place, an intersection the incident
+// happened near, or a route (only the street is known; the point is wherever the geocoder put the street)
+export type LocationPrecision = 'address' | 'intersection' | 'route';
+
+export const getLocationPrecision = (incident: Incident): LocationPrecision => {
+    const interpretation = incident.location_interpretation?.toLowerCase();
+    return interpretation === 'route' ? 'route' : interpretation === 'intersection' ? 'intersection' : 'address';
+};
+
+// Explanations shown with an incident (map pop-up, incident page)
+export const locationPrecisionNotes: { [precision in LocationPrecision]: string } = {
+    address: 'Geocoded to a street address or place.',
+    intersection: 'Approximate: the log only names an intersection, so the incident happened somewhere near it.',
+    route: 'Approximate: the log only names the street, so the incident could be anywhere along it. The marker is the point the geocoder picked for the street.',
+};
+
+export const dayInMs = 24 * 60 * 60 * 1000;
+// Incidents dated this long before the first police log are treated as outliers and left off day-by-day charts
+const outlierLeadInDays = 30;
+
+// Format a UTC timestamp as e.g. "Mar 5, 2025"
+export const formatUTCDay = (timestamp: number): string =>
+    new Date(timestamp).toLocaleDateString('en-US', { timeZone: 'UTC', month: 'short', day: 'numeric', year: 'numeric' });
+
+// First and last police log dates (UTC midnights), i.e. the period the data covers
+export const computeLogDateRange = (incidents: Incident[]): { startTs: number, endTs: number } | null => {
+    const logDays = incidents.map(incident => parseReportDate(incident)?.getTime()).filter((t): t is number => t !== undefined);
+    if (logDays.length === 0) return null;
+    return { startTs: Math.min(...logDays), endTs: Math.max(...logDays) };
+};
+
+// Span of incident dates (UTC midnights) from the first incident date, ignoring old outliers, to the last
+export const computeIncidentDaySpan = (incidents: Incident[]): { startTs: number, dayCount: number } | null => {
+    const incidentDays = incidents.map(incident => parseMDYToUTCDate(incident.date)?.getTime()).filter((t): t is number => t !== undefined);
+    const logDays = incidents.map(incident => parseReportDate(incident)?.getTime()).filter((t): t is number => t !== undefined);
+    if (incidentDays.length === 0) return null;
+
+    const earliestAllowed = logDays.length > 0 ? Math.min(...logDays) - outlierLeadInDays * dayInMs : -Infinity;
+    const inRange = incidentDays.filter(t => t >= earliestAllowed);
+    const startTs = Math.min(...inRange);
+    const endTs = Math.max(...inRange);
+    return { startTs, dayCount: Math.round((endTs - startTs) / dayInMs) + 1 };
+};
@@ -0,0 +1,40 @@
+import { DataSource, legacyStorageKeyPrefix, storageKeyPrefix } from './dataSources';
+import { isoDatePattern } from './filters';
+import { Incident, incidentKey, parseReportDate } from './incidents';
+
+// The newest police log date the user has seen, per data source, stored as a YYYY-MM-DD string in localStorage (the
+// previous visit) or sessionStorage (the current one), and the incidents from police logs published after it.
+
+const lastSeenLogStorageKey = (source: DataSource, prefix = storageKeyPrefix): string => `${prefix}.lastSeenLogDate.${source.id}`;
+
+// Read a stored last-seen log date as a UTC midnight timestamp, or null if there is none
+export const loadLastSeenLogTs = (storage: Storage, source: DataSource): number | null => {
+    try {
+        const stored = storage.getItem(lastSeenLogStorageKey(source)) ?? storage.getItem(lastSeenLogStorageKey(source, legacyStorageKeyPrefix));
+        if (!stored || !isoDatePattern.test(stored)) return null;
+        const ts = new Date(stored + 'T00:00:00Z').getTime();
+        return isNaN(ts) ? null : ts;
+    } catch (error) {
+        console.error("Error reading the last seen log date:", error);
+        return null;
+    }
+};
+
+export const storeLastSeenLogTs = (storage: Storage, source: DataSource, ts: number) => {
+    try {
+        storage.setItem(lastSeenLogStorageKey(source), new Date(ts).toISOString().slice(0, 10));
+    } catch (error) {
+        console.error("Error saving the last seen log date:", error);
+    }
+};
+
+// Keys of incidents from police logs dated after `lastSeenLogTs` (none before the baseline is known)
+export const findNewIncidentKeys = (incidents: Incident[], lastSeenLogTs: number | null): Set<string> => {
+    const keys = new Set<string>();
+    if (lastSeenLogTs === null) return keys;
+    incidents.forEach(incident => {
+        const reportTs = parseReportDate(incident)?.getTime();
+        if (reportTs !== undefined && reportTs > lastSeenLogTs) keys.add(incidentKey(incident));
+    });
+    return keys;
+};
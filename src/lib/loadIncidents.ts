@@ -0,0 +1,35 @@
+import { DataSource } from './dataSources';
+import { Incident } from './incidents';
+
+// Page size used when loading the full dataset from /api/incidents
+const incidentFetchPageSize = 1000;
+
+// Load every page, or null if the pages came from different deployments of the data (their X-Data-Version differs),
+// e.g. an older page from a cache next to a freshly fetched one
+const fetchIncidentPages = async (source: DataSource, cache: RequestCache): Promise<Incident[] | null> => {
+    const incidents: Incident[] = [];
+    let dataVersion: string | null = null;
+    for (let page = 1; ; page++) {
+        // imprecise=1: the API leaves out route/intersection geocodes by default, but the map filters them itself
+        const response = await fetch(`/api/incidents?city=${encodeURIComponent(source.id)}&imprecise=1&limit=${incidentFetchPageSize}&page=${page}`, { cache });
+        if (!response.ok) {
+            throw new Error(`Failed to load incidents (HTTP ${response.status})`);
+        }
+        const pageVersion = response.headers.get('X-Data-Version');
+        if (page === 1) dataVersion = pageVersion;
+        else if (pageVersion !== dataVersion) return null;
+        const body: { incidents: Incident[], pageCount: number } = await response.json();
+        incidents.push(...body.incidents);
+        if (page >= body.pageCount) return incidents;
+    }
+};
+
+// Load every incident of a data source from the API, following pagination (browser only).
+// Mixed pages are loaded again from the network (the service worker passes "reload" requests through).
+export const fetchAllIncidents = async (source: DataSource): Promise<Incident[]> => {
+    const incidents = await fetchIncidentPages(source, 'default') ?? await fetchIncidentPages(source, 'reload');
+    if (!incidents) {
+        throw new Error('Incident data changed while loading');
+    }
+    return incidents;
+};
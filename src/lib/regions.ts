@@ -0,0 +1,108 @@
+import { BoundsLiteral, distanceInMeters, isInBounds, LatLngLiteral } from './geo';
+import { Incident } from './incidents';
+
+// Areas incidents are grouped into for the choropleth view: ZIP codes parsed from formatted_address.
+// No boundary data is bundled, so the outlines are approximations drawn around the incident locations.
+export interface Region {
+    id: string; // e.g. "zip:94301"
+    name: string; // The ZIP code
+    paths: LatLngLiteral[][]; // Outer rings, plus holes wound opposite to their outer rings
+}
+
+// ZIP code from a Google formatted address, e.g. "250 Hamilton Ave, Palo Alto, CA 94301, USA"
+export const parseZipCode = (address: string): string | null => {
+    const match = /\b[A-Z]{2} (\d{5})(?:-\d{4})?\b/.exec(address);
+    return match ? match[1] : null;
+};
+
+// ZIP outlines split the service area into a grid of cells, each given to the ZIP of the nearest incident location
+// (a coarse Voronoi diagram), so neighboring ZIPs share edges instead of overlapping.
+// Cell size (degrees): about 220 m × 220 m at Palo Alto's latitude
+const zipCellLat = 0.002;
+const zipCellLng = 0.0025;
+// Cells farther than this from every incident location with a ZIP are left out, so the outlines stay near the data (meters)
+const zipCellReachMeters = 700;
+
+// Grid cell or corner (row, column) as a map key
+const gridKey = (row: number, col: number): string => `${row},${col}`;
+
+// Outline of a set of grid cells as rings of corners: cell edges not shared with another cell of the set,
+// counter-clockwise around the cells (so holes wind the other way), with straight runs merged
+const traceCellOutline = (cells: Set<string>): [number, number][][] => {
+    const edgesFrom: { [corner: string]: [number, number][] } = {};
+    const addEdge = (from: [number, number], to: [number, number]) => (edgesFrom[gridKey(...from)] ||= []).push(to);
+    cells.forEach(cell => {
+        const [row, col] = cell.split(',').map(Number);
+        // Rows grow northwards and columns eastwards
+        if (!cells.has(gridKey(row - 1, col))) addEdge([row, col], [row, col + 1]);
+        if (!cells.has(gridKey(row, col + 1))) addEdge([row, col + 1], [row + 1, col + 1]);
+        if (!cells.has(gridKey(row + 1, col))) addEdge([row + 1, col + 1], [row + 1, col]);
+        if (!cells.has(gridKey(row, col - 1))) addEdge([row + 1, col], [row, col]);
+    });
+
+    const rings: [number, number][][] = [];
+    Object.keys(edgesFrom).forEach(startKey => {
+        // Every corner has as many edges leaving as arriving, so each walk comes back to where it started
+        for (let first = edgesFrom[startKey].pop(); first; first = edgesFrom[startKey].pop()) {
+            const ring = [first];
+            for (let corner = first; gridKey(...corner) !== startKey;) {
+                const step = edgesFrom[gridKey(...corner)].pop();
+                if (!step) break;
+                ring.push(step);
+                corner = step;
+            }
+            // Keep only the corners where the outline turns
+            rings.push(ring.filter((corner, i) => {
+                const previous = ring[(i + ring.length - 1) % ring.length];
+                const following = ring[(i + 1) % ring.length];
+                return (corner[0] - previous[0]) * (following[1] - corner[1]) !== (corner[1] - previous[1]) * (following[0] - corner[0]);
+            }));
+        }
+    });
+    return rings;
+};
+
+// Approximate ZIP outlines from the incident locations with that ZIP inside the service area (no ZIP boundary data
+// is bundled): non-overlapping groups of grid cells clipped to the area. Built from the full dataset so shapes
+// don't change with the filters.
+export const buildZipRegions = (incidents: Incident[], areaBounds: BoundsLiteral): Region[] => {
+    const locations: { [position: string]: { point: LatLngLiteral, zip: string } } = {};
+    incidents.forEach(incident => {
+        const zip = parseZipCode(incident.formatted_address);
+        const point = { lat: incident.latitude, lng: incident.longitude };
+        if (!zip || !isInBounds(point, areaBounds)) return;
+        locations[`${point.lat},${point.lng}`] ||= { point, zip };
+    });
+    const located = Object.values(locations);
+    if (located.length === 0) return [];
+
+    const rowCount = Math.ceil((areaBounds.north - areaBounds.south) / zipCellLat);
+    const colCount = Math.ceil((areaBounds.east - areaBounds.west) / zipCellLng);
+    const cornerLat = (row: number) => Math.min(areaBounds.south + row * zipCellLat, areaBounds.north);
+    const cornerLng = (col: number) => Math.min(areaBounds.west + col * zipCellLng, areaBounds.east);
+
+    const cellsByZip: { [zip: string]: Set<string> } = {};
+    for (let row = 0; row < rowCount; row++) {
+        for (let col = 0; col < colCount; col++) {
+            const center = { lat: (cornerLat(row) + cornerLat(row + 1)) / 2, lng: (cornerLng(col) + cornerLng(col + 1)) / 2 };
+            let nearest: { zip: string, distance: number } | null = null;
+            for (const { point, zip } of located) {
+                const distance = distanceInMeters(center, point);
+                if (!nearest || distance < nearest.distance) nearest = { zip, distance };
+            }
+            if (nearest && nearest.distance <= zipCellReachMeters) (cellsByZip[nearest.zip] ||= new Set()).add(gridKey(row, col));
+        }
+    }
+
+    return Object.keys(cellsByZip).sort().map(zip => ({
+        id: `zip:${zip}`,
+        name: zip,
+        paths: traceCellOutline(cellsByZip[zip]).map(ring => ring.map(([row, col]) => ({ lat: cornerLat(row), lng: cornerLng(col) }))),
+    }));
+};
+
+// Region id for an incident from the ZIP in its address, or null without one
+export const assignRegionId = (incident: Incident): string | null => {
+    const zip = parseZipCode(incident.formatted_address);
+    return zip ? `zip:${zip}` : null;
+};
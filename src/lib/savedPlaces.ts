@@ -0,0 +1,84 @@
+import { DataSource, defaultDataSource, legacyStorageKeyPrefix, storageKeyPrefix } from './dataSources';
+import { distanceInMeters, LatLngLiteral } from './geo';
+import { Incident, incidentKey, isHourInRange, isUnknownTime } from './incidents';
+import { getIncidentSeverityLevel, getSeverityWeights, Taxonomy } from './taxonomy';
+
+// Searched places the user saved on the map, kept in localStorage, and the statistics the "Compare places" tab
+// shows for each of them.
+
+// A searched place the user saved
+export interface SavedPlace {
+    id: string;
+    name: string;
+    formattedAddress: string;
+    position: LatLngLiteral;
+}
+
+// Per data source, like the last-seen log date, so one city's places aren't pinned and compared in another
+const savedPlacesStorageKey = (source: DataSource, prefix = storageKeyPrefix): string => `${prefix}.savedPlaces.${source.id}`;
+// Places saved before the key was per source belong to the default source
+const legacySavedPlacesStorageKey = `${legacyStorageKeyPrefix}.savedPlaces`;
+
+// Night-time window used by the comparison (20:00 to 06:00)
+export const nightStartHour = 20;
+export const nightEndHour = 6;
+const comparisonNearestCount = 3;
+
+// Read saved places from localStorage, dropping anything malformed
+export const loadSavedPlaces = (source: DataSource): SavedPlace[] => {
+    try {
+        const legacy = source === defaultDataSource ? window.localStorage.getItem(legacySavedPlacesStorageKey) : null;
+        const stored = JSON.parse(
+            window.localStorage.getItem(savedPlacesStorageKey(source)) ??
+            window.localStorage.getItem(savedPlacesStorageKey(source, legacyStorageKeyPrefix)) ??
+            legacy ?? '[]'
+        );
+        if (!Array.isArray(stored)) return [];
+        return stored.filter((place): place is SavedPlace =>
+            place && typeof place.id === 'string' && typeof place.name === 'string' && typeof place.formattedAddress === 'string' &&
+            Number.isFinite(place.position?.lat) && Number.isFinite(place.position?.lng)
+        );
+    } catch (error) {
+        console.error("Error reading saved places:", error);
+        return [];
+    }
+};
+
+export const storeSavedPlaces = (source: DataSource, places: SavedPlace[]) => {
+    try {
+        window.localStorage.setItem(savedPlacesStorageKey(source), JSON.stringify(places));
+    } catch (error) {
+        console.error("Error saving places:", error);
+    }
+};
+
+export interface PlaceSummary {
+    count: number;
+    newCount: number;
+    severityScore: number;
+    knownTimeCount: number;
+    nightCount: number;
+    categoryCounts: { [category: string]: number };
+    nearest: { incident: Incident, distance: number }[];
+}
+
+// Statistics for the incidents within `radius` meters of a position
+export const summarizePlace = (incidents: Incident[], position: LatLngLiteral, radius: number, taxonomy: Taxonomy, newIncidentKeys: Set<string>): PlaceSummary => {
+    const summary: PlaceSummary = { count: 0, newCount: 0, severityScore: 0, knownTimeCount: 0, nightCount: 0, categoryCounts: {}, nearest: [] };
+    const inRadius: { incident: Incident, distance: number }[] = [];
+    incidents.forEach(incident => {
+        const distance = distanceInMeters(position, { lat: incident.latitude, lng: incident.longitude });
+        if (distance > radius) return;
+        inRadius.push({ incident, distance });
+        summary.count++;
+        if (newIncidentKeys.has(incidentKey(incident))) summary.newCount++;
+        summary.severityScore += getSeverityWeights(taxonomy)[getIncidentSeverityLevel(incident, taxonomy)] ?? 1;
+        summary.categoryCounts[incident.offense_category] = (summary.categoryCounts[incident.offense_category] || 0) + 1;
+        if (!isUnknownTime(incident.time)) {
+            summary.knownTimeCount++;
+            if (isHourInRange(Math.floor(incident.time / 60), nightStartHour, nightEndHour)) summary.nightCount++;
+        }
+    });
+    summary.nearest = inRadius.sort((a, b) => a.distance - b.distance).slice(0, comparisonNearestCount);
+    return summary;
+};
@@ -0,0 +1,30 @@
+import { LatLngLiteral } from './geo';
+
+// Named street lines from a data source's streets GeoJSON (`streetsUrl`): drawn by the fallback map and the incident
+// page thumbnails, and matched to route incidents to highlight their street.
+export interface StreetLine {
+    name: string;
+    path: LatLngLiteral[];
+}
+
+// Read named LineString/MultiLineString features from a GeoJSON FeatureCollection, skipping anything else
+export const parseStreetGeoJson = (data: unknown): StreetLine[] => {
+    const features = (data as { features?: unknown })?.features;
+    if (!Array.isArray(features)) return [];
+    const streets: StreetLine[] = [];
+    features.forEach(feature => {
+        const name = feature?.properties?.name;
+        const geometry = feature?.geometry;
+        if (typeof name !== 'string' || !geometry) return;
+        const lines: unknown[] = geometry.type === 'LineString' ? [geometry.coordinates] : geometry.type === 'MultiLineString' ? geometry.coordinates : [];
+        lines.forEach(line => {
+            if (!Array.isArray(line)) return;
+            const path = line
+                .filter(point => Array.isArray(point) && point.length >= 2)
+                .map(([lng, lat]) => ({ lat: Number(lat), lng: Number(lng) }))
+                .filter(point => Number.isFinite(point.lat) && Number.isFinite(point.lng));
+            if (path.length >= 2) streets.push({ name, path });
+        });
+    });
+    return streets;
+};
@@ -0,0 +1,125 @@
+import taxonomyConfig from '../config/taxonomy.json';
+import { Incident } from './incidents';
+
+// Offense taxonomies live in src/config/ (taxonomy.json is the shared one). Each data source picks one, so every
+// helper takes the taxonomy to use. Bump a file's "version" whenever severities, colors or overrides change
+// so exported data can be traced back to it.
+
+export interface SeverityTier {
+    level: string;
+    weight: number; // Used by severity-weighted density
+    description: string;
+}
+
+export interface CategoryStyle {
+    severity: string;
+    color: string;
+    icon: string;
+    description: string;
+}
+
+// Re-rates incidents whose offense_type matches `pattern`, optionally only within one category
+export interface OffenseTypeOverride {
+    pattern: string;
+    flags?: string;
+    category?: string;
+    severity?: string;
+    color?: string;
+    icon?: string;
+    description: string;
+}
+
+export interface Taxonomy {
+    version: number;
+    severities: SeverityTier[];
+    fallback: CategoryStyle;
+    categories: { [category: string]: CategoryStyle };
+    offenseTypeOverrides: OffenseTypeOverride[];
+}
+
+// Shared by every data source whose logs go through the same categorizer (see dataSources.ts)
+export const defaultTaxonomy: Taxonomy = taxonomyConfig;
+
+// Lookups derived from a taxonomy, built once per taxonomy object
+interface CompiledTaxonomy {
+    severityOrder: string[];
+    severityWeights: { [severity: string]: number };
+    overrideRegexes: RegExp[];
+}
+
+const compiledTaxonomies = new WeakMap<Taxonomy, CompiledTaxonomy>();
+
+const compileTaxonomy = (taxonomy: Taxonomy): CompiledTaxonomy => {
+    let compiled = compiledTaxonomies.get(taxonomy);
+    if (!compiled) {
+        compiled = {
+            severityOrder: taxonomy.severities.map(tier => tier.level),
+            severityWeights: Object.fromEntries(taxonomy.severities.map(tier => [tier.level, tier.weight])),
+            overrideRegexes: taxonomy.offenseTypeOverrides.map(override => new RegExp(override.pattern, override.flags)),
+        };
+        compiledTaxonomies.set(taxonomy, compiled);
+    }
+    return compiled;
+};
+
+// Severity levels from most to least severe
+export const getSeverityOrder = (taxonomy: Taxonomy): string[] => compileTaxonomy(taxonomy).severityOrder;
+
+export const getSeverityWeights = (taxonomy: Taxonomy): { [severity: string]: number } => compileTaxonomy(taxonomy).severityWeights;
+
+export const isMappedCategory = (category: string, taxonomy: Taxonomy): boolean =>
+    Object.prototype.hasOwnProperty.call(taxonomy.categories, category);
+
+// Style for a category as a whole (filter swatches, legend); unmapped categories get the fallback
+export const getCategoryStyle = (category: string, taxonomy: Taxonomy): CategoryStyle =>
+    isMappedCategory(category, taxonomy) ? taxonomy.categories[category] : taxonomy.fallback;
+
+export const getCategorySeverityLevel = (category: string, taxonomy: Taxonomy): string => getCategoryStyle(category, taxonomy).severity;
+
+export const getCategoryColor = (category: string, taxonomy: Taxonomy): string => getCategoryStyle(category, taxonomy).color;
+
+// Index of the first offense type override that applies to an incident, or -1
+export const findOffenseTypeOverride = (incident: Incident, taxonomy: Taxonomy): number => {
+    const { overrideRegexes } = compileTaxonomy(taxonomy);
+    return taxonomy.offenseTypeOverrides.findIndex((override, i) =>
+        (!override.category || override.category === incident.offense_category) && overrideRegexes[i].test(incident.offense_type)
+    );
+};
+
+// Style for a single incident: its category's style with the first matching offense type override applied
+export const getIncidentStyle = (incident: Incident, taxonomy: Taxonomy): CategoryStyle => {
+    const style = getCategoryStyle(incident.offense_category, taxonomy);
+    const index = findOffenseTypeOverride(incident, taxonomy);
+    if (index < 0) return style;
+    const { severity, color, icon } = taxonomy.offenseTypeOverrides[index];
+    return {
+        severity: severity ?? style.severity,
+        color: color ?? style.color,
+        icon: icon ?? style.icon,
+        description: style.description,
+    };
+};
+
+export const getIncidentSeverityLevel = (incident: Incident, taxonomy: Taxonomy): string => getIncidentStyle(incident, taxonomy).severity;
+
+// Sort categories by severity, then alphabetically
+export const sortCategoriesBySeverity = (categories: string[], taxonomy: Taxonomy): string[] => {
+    const severityOrder = getSeverityOrder(taxonomy);
+    return [...categories].sort((a, b) =>
+        severityOrder.indexOf(getCategorySeverityLevel(a, taxonomy)) - severityOrder.indexOf(getCategorySeverityLevel(b, taxonomy)) || a.localeCompare(b)
+    );
+};
+
+// Categories present in the data that the taxonomy does not cover, most frequent first
+export const findUnmappedCategories = (incidents: Incident[], taxonomy: Taxonomy): { category: string, count: number, offenseTypes: string[] }[] => {
+    const found: { [category: string]: { count: number, offenseTypes: string[] } } = {};
+    incidents.forEach(incident => {
+        if (isMappedCategory(incident.offense_category, taxonomy)) return;
+        const entry = (found[incident.offense_category] ||= { count: 0, offenseTypes: [] });
+        entry.count++;
+        if (!entry.offenseTypes.includes(incident.offense_type)) entry.offenseTypes.push(incident.offense_type);
+    });
+    return Object.entries(found)
+        .map(([category, { count, offenseTypes }]) => ({ category, count, offenseTypes }))
+        .sort((a, b) => b.count - a.count || a.category.localeCompare(b.category));
+};
@@ -0,0 +1,169 @@
+import { BoundsLiteral, isInBounds } from './geo';
+import { Incident, incidentKey, parseMDYToUTCDate, parseReportDate } from './incidents';
+
+// Errors make a record unusable (it is dropped before serving); warnings are served but flagged
+export type IssueSeverity = 'error' | 'warning';
+
+export type IssueCode =
+    | 'not_array'
+    | 'not_object'
+    | 'invalid_field'
+    | 'invalid_coordinates'
+    | 'duplicate_key'
+    | 'invalid_date'
+    | 'invalid_time'
+    | 'outside_area'
+    | 'invalid_police_record_date'
+    | 'police_record_date_mismatch';
+
+export interface DataQualityIssue {
+    index: number; // Position of the record in incidents.json (-1 for dataset-level issues)
+    caseNumber: string | null;
+    field: string | null;
+    severity: IssueSeverity;
+    code: IssueCode;
+    message: string;
+}
+
+export interface DataQualityReport {
+    generatedAt: string;
+    totalRecords: number;
+    validRecords: number; // Records without errors
+    errorCount: number;
+    warningCount: number;
+    countsByCode: { [code in IssueCode]?: number };
+    issues: DataQualityIssue[];
+}
+
+// Human-readable description of each check, for the report page
+export const issueCodeDescriptions: { [code in IssueCode]: string } = {
+    not_array: 'The data file is not a JSON array',
+    not_object: 'Record is not a JSON object',
+    invalid_field: 'Required field is missing or has the wrong type',
+    invalid_coordinates: 'Latitude/longitude are not valid numbers',
+    duplicate_key: 'Another record has the same case_number + police_record_date_str',
+    invalid_date: 'Incident date is not a valid M/D/YYYY date',
+    invalid_time: 'Time is not a whole number of minutes between 0 and 1439',
+    outside_area: 'Coordinates fall outside the data source\'s service area',
+    invalid_police_record_date: 'Police log date cannot be parsed',
+    police_record_date_mismatch: 'police_record_date and police_record_date_str disagree',
+};
+
+// Expected type of every Incident field; optional fields may also be missing
+const fieldTypes: { field: keyof Incident, type: 'string' | 'number', optional?: boolean }[] = [
+    { field: 'case_number', type: 'string' },
+    { field: 'date', type: 'string' },
+    { field: 'time', type: 'number' },
+    { field: 'offense_type', type: 'string' },
+    { field: 'offense_category', type: 'string' },
+    { field: 'location', type: 'string' },
+    { field: 'latitude', type: 'number' },
+    { field: 'longitude', type: 'number' },
+    { field: 'formatted_address', type: 'string' },
+    { field: 'google_maps_uri', type: 'string' },
+    { field: 'place_types', type: 'string' },
+    { field: 'location_interpretation', type: 'string' },
+    { field: 'police_record_date_str', type: 'string', optional: true },
+    { field: 'police_record_date', type: 'string', optional: true },
+];
+
+const monthNames = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
+
+// Validate the raw contents of incidents.json.
+// Returns the records that passed without errors, plus a report of every issue found.
+export const validateIncidents = (data: unknown, areaBounds: BoundsLiteral): { incidents: Incident[], report: DataQualityReport } => {
+    const issues: DataQualityIssue[] = [];
+    const incidents: Incident[] = [];
+
+    const records: unknown[] = Array.isArray(data) ? data : [];
+    if (!Array.isArray(data)) {
+        issues.push({ index: -1, caseNumber: null, field: null, severity: 'error', code: 'not_array', message: issueCodeDescriptions.not_array });
+    }
+
+    const seenKeys: { [key: string]: number } = {};
+
+    records.forEach((record, index) => {
+        const caseNumber = record && typeof record === 'object' && typeof (record as Incident).case_number === 'string'
+            ? (record as Incident).case_number
+            : null;
+        const addIssue = (severity: IssueSeverity, code: IssueCode, field: string | null, message: string) => {
+            issues.push({ index, caseNumber, field, severity, code, message });
+        };
+
+        if (!record || typeof record !== 'object' || Array.isArray(record)) {
+            addIssue('error', 'not_object', null, `Record is ${Array.isArray(record) ? 'an array' : record === null ? 'null' : typeof record}`);
+            return;
+        }
+
+        // Shape
+        let hasError = false;
+        const values = record as { [field: string]: unknown };
+        fieldTypes.forEach(({ field, type, optional }) => {
+            const value = values[field];
+            if (value === undefined && optional) return;
+            if (typeof value !== type) {
+                addIssue('error', 'invalid_field', field, value === undefined ? `Missing "${field}"` : `"${field}" should be a ${type}, got ${value === null ? 'null' : typeof value}`);
+                hasError = true;
+            }
+        });
+        if (hasError) return;
+        const incident = record as Incident;
+
+        // Coordinates
+        if (!Number.isFinite(incident.latitude) || !Number.isFinite(incident.longitude) ||
+            Math.abs(incident.latitude) > 90 || Math.abs(incident.longitude) > 180) {
+            addIssue('error', 'invalid_coordinates', 'latitude', `Invalid coordinates ${incident.latitude}, ${incident.longitude}`);
+            return;
+        }
+
+        // Duplicates (the first occurrence is kept)
+        const key = incidentKey(incident);
+        if (seenKeys[key] !== undefined) {
+            addIssue('error', 'duplicate_key', 'case_number', `Duplicate of record #${seenKeys[key]} (${incident.case_number}, ${incident.police_record_date_str ?? 'no log date'})`);
+            return;
+        }
+        seenKeys[key] = index;
+
+        // Warnings: the record is still usable, but some views will leave it out or misplace it
+        if (!parseMDYToUTCDate(incident.date, false)) {
+            addIssue('warning', 'invalid_date', 'date', `"${incident.date}" is not a valid M/D/YYYY date; hidden whenever an incident date filter is active`);
+        }
+
+        if (!Number.isInteger(incident.time) || incident.time < 0 || incident.time > 1439) {
+            addIssue('warning', 'invalid_time', 'time', `Time ${incident.time} is outside 0-1439 minutes; treated as unknown`);
+        }
+
+        if (!isInBounds({ lat: incident.latitude, lng: incident.longitude }, areaBounds)) {
+            addIssue('warning', 'outside_area', 'latitude', `${incident.latitude.toFixed(5)}, ${incident.longitude.toFixed(5)} (${incident.formatted_address || incident.location}) is outside the service area; likely a geocoding error`);
+        }
+
+        const reportDate = parseReportDate(incident);
+        if (!reportDate) {
+            addIssue('warning', 'invalid_police_record_date', 'police_record_date', `Cannot parse police log date "${incident.police_record_date ?? incident.police_record_date_str ?? ''}"; hidden whenever a log date filter is active`);
+        } else if (incident.police_record_date_str) {
+            const expected = `${monthNames[reportDate.getUTCMonth()]}-${String(reportDate.getUTCDate()).padStart(2, '0')}-${reportDate.getUTCFullYear()}`;
+            if (incident.police_record_date_str.toLowerCase() !== expected) {
+                addIssue('warning', 'police_record_date_mismatch', 'police_record_date_str', `"${incident.police_record_date}" does not match "${incident.police_record_date_str}"; the PDF link may be wrong`);
+            }
+        }
+
+        incidents.push(incident);
+    });
+
+    const countsByCode: { [code in IssueCode]?: number } = {};
+    issues.forEach(issue => { countsByCode[issue.code] = (countsByCode[issue.code] ?? 0) + 1; });
+    const errorCount = issues.filter(issue => issue.severity === 'error').length;
+
+    return {
+        incidents,
+        report: {
+            generatedAt: new Date().toISOString(),
+            totalRecords: records.length,
+            validRecords: incidents.length,
+            errorCount,
+            warningCount: issues.length - errorCount,
+            countsByCode,
+            issues,
+        },
+    };
+};
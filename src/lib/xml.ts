@@ -0,0 +1,8 @@
+// Escape text for XML element content and quoted attribute values (Atom feeds, KML exports, SVG thumbnails)
+export const escapeXml = (value: string): string =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { feedLogCount, renderFeed } from '@/lib/feeds';
+
+const origin = 'https://example.com';
+
+const render = (query: string, format: 'atom' | 'json') => renderFeed(new URLSearchParams(query), origin, format === 'atom' ? '/feed.xml' : '/feed.json', format);
+
+describe('renderFeed', () => {
+    test('rejects an unknown city and malformed filters', () => {
+        assert.deepEqual(render('city=atlantis', 'json'), { error: 'Unknown "city" "atlantis"' });
+        const parsed = render('hours=25-3', 'atom');
+        assert.ok('error' in parsed);
+        assert.match(parsed.error, /"hours"/);
+    });
+
+    test('lists the latest police logs, newest first', () => {
+        const rendered = render('cat=Theft', 'json');
+        if ('error' in rendered) assert.fail(rendered.error);
+        const feed = JSON.parse(rendered.body);
+        assert.equal(feed.title, 'Palo Alto police log incidents (filtered)');
+        assert.equal(feed.feed_url, `${origin}/feed.json?cat=Theft`);
+        assert.ok(feed.items.length > 0);
+
+        const logDates: string[] = feed.items.map((item: { date_published: string }) => item.date_published);
+        assert.ok(new Set(logDates).size <= feedLogCount);
+        assert.deepEqual(logDates, [...logDates].sort().reverse());
+        feed.items.forEach((item: { tags: string[], url: string }) => {
+            assert.ok(item.tags.includes('Theft'));
+            assert.ok(item.url.startsWith(`${origin}/?case=`));
+        });
+    });
+
+    test('escapes the feed URL in Atom', () => {
+        const rendered = render('cat=Theft&cat=Burglary', 'atom');
+        if ('error' in rendered) assert.fail(rendered.error);
+        assert.ok(rendered.body.startsWith('<?xml'));
+        assert.ok(rendered.body.includes(`${origin}/feed.xml?cat=Theft&amp;cat=Burglary`));
+        assert.ok(!rendered.body.includes('cat=Theft&cat='));
+    });
+});
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { defaultDataSource } from '@/lib/dataSources';
+import { filterIncidents, parseIncidentQueryParams } from '@/lib/filters';
+import { appendFilterParams, defaultFilterState, FilterState, filterQueryString, parseFilterParams, toIncidentQuery } from '@/lib/filterState';
+import { getSourceIncidents } from '@/lib/incidentData';
+import { incidentKey } from '@/lib/incidents';
+
+const { taxonomy } = defaultDataSource;
+
+// Map filters that differ from the defaults in every field
+const filters: FilterState = {
+    incidentDateStart: '2025-03-01',
+    incidentDateEnd: '2025-04-30',
+    reportDateStart: '2025-03-07',
+    reportDateEnd: '2025-05-02',
+    selectedCategories: ['Theft', 'Burglary'],
+    selectedSeverities: ['High', 'Medium'],
+    locationFilter: 'areas',
+    timeStartHour: 22,
+    timeEndHour: 4,
+    includeUnknownTime: false,
+    drawnAreas: [
+        { kind: 'rectangle', bounds: { south: 37.43, north: 37.46, west: -122.18, east: -122.14 } },
+        { kind: 'polygon', path: [{ lat: 37.42, lng: -122.16 }, { lat: 37.44, lng: -122.12 }, { lat: 37.41, lng: -122.11 }] },
+    ],
+};
+
+describe('filter query strings', () => {
+    test('round-trip through appendFilterParams and parseFilterParams', () => {
+        const params = new URLSearchParams();
+        appendFilterParams(params, filters);
+        assert.deepEqual(parseFilterParams(params, taxonomy), filters);
+    });
+
+    test('leave default filters out of the query string', () => {
+        assert.equal(filterQueryString(defaultFilterState, defaultDataSource), '');
+        assert.deepEqual(parseFilterParams(new URLSearchParams(), taxonomy), defaultFilterState);
+    });
+});
+
+describe('map and /api/incidents filtering', () => {
+    const incidents = getSourceIncidents(defaultDataSource);
+
+    // The map page reads its query string into FilterState; the API and feeds parse the same parameters directly
+    const clientKeys = (query: string) =>
+        filterIncidents(incidents, toIncidentQuery(parseFilterParams(new URLSearchParams(query), taxonomy)), taxonomy).map(incidentKey);
+    const serverKeys = (query: string) => {
+        const parsed = parseIncidentQueryParams(new URLSearchParams(query), taxonomy);
+        if ('error' in parsed) assert.fail(`Unexpected error for "${query}": ${parsed.error}`);
+        return filterIncidents(incidents, parsed.query, taxonomy).map(incidentKey);
+    };
+
+    for (const query of [
+        '',
+        'from=2025-03-01&to=2025-03-31',
+        'logFrom=2025-04-01',
+        'cat=Theft&cat=Burglary',
+        'severity=High',
+        'hours=22-4',
+        'hours=8-18&unknownTime=0',
+        'imprecise=1',
+        'imprecise=areas&cat=Vehicle Crime',
+        'area=37.43,-122.18;37.46,-122.14',
+        filterQueryString(filters, defaultDataSource),
+    ]) {
+        test(`match for "${query}"`, () => {
+            assert.deepEqual(clientKeys(query), serverKeys(query));
+        });
+    }
+
+    test('drop route/intersection incidents unless imprecise is set', () => {
+        assert.ok(serverKeys('').length < serverKeys('imprecise=1').length);
+    });
+});
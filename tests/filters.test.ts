@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { filterIncidents, IncidentQuery, maxAreaVertices, maxQueryRadiusMeters, parseIncidentQueryParams } from '@/lib/filters';
+import { incidentKey } from '@/lib/incidents';
+import { defaultTaxonomy } from '@/lib/taxonomy';
+import { makeIncident } from './helpers';
+
+const parse = (query: string) => parseIncidentQueryParams(new URLSearchParams(query), defaultTaxonomy);
+
+const parseQuery = (query: string): IncidentQuery => {
+    const parsed = parse(query);
+    if ('error' in parsed) assert.fail(`Unexpected error for "${query}": ${parsed.error}`);
+    return parsed.query;
+};
+
+const assertError = (query: string, pattern: RegExp) => {
+    const parsed = parse(query);
+    assert.ok('error' in parsed, `Expected an error for "${query}"`);
+    assert.match(parsed.error, pattern);
+};
+
+describe('parseIncidentQueryParams', () => {
+    test('drops route/intersection geocodes unless imprecise is set', () => {
+        assert.deepEqual(parseQuery(''), { preciseOnly: true });
+        assert.equal(parseQuery('imprecise=1').preciseOnly, undefined);
+        assert.equal(parseQuery('imprecise=areas').preciseOnly, undefined);
+        assertError('imprecise=yes', /"imprecise"/);
+    });
+
+    test('rejects malformed dates', () => {
+        assertError('from=2025-3-1', /"from" date/);
+        assertError('logTo=2025-13-45', /"logTo" date/);
+        assert.equal(parseQuery('from=2025-03-01').incidentDateStart, '2025-03-01');
+    });
+
+    test('rejects unknown severities', () => {
+        assertError('severity=Critical', /Unknown severity "Critical"/);
+        assert.deepEqual(parseQuery('severity=High&severity=Low').severities, ['High', 'Low']);
+    });
+
+    test('rejects a bad bbox', () => {
+        assertError('bbox=-122.2,37.39,-122.07', /"bbox"/);
+        assertError('bbox=a,b,c,d', /"bbox"/);
+        assertError('bbox=-122.2,37.47,-122.07,37.39', /"bbox"/); // South above north
+        assertError('bbox=-122.07,37.39,-122.2,37.47', /"bbox"/); // West east of east
+        assert.deepEqual(parseQuery('bbox=-122.2,37.39,-122.07,37.47').bounds, { west: -122.2, south: 37.39, east: -122.07, north: 37.47 });
+    });
+
+    test('requires a radius up to the maximum with near', () => {
+        assertError('near=37.44,-122.16', /"radius"/);
+        assertError('near=37.44,-122.16&radius=0', /"radius"/);
+        assertError(`near=37.44,-122.16&radius=${maxQueryRadiusMeters + 1}`, /"radius"/);
+        assertError('near=95,-122.16&radius=500', /"near"/);
+        assert.deepEqual(parseQuery(`near=37.44,-122.16&radius=${maxQueryRadiusMeters}`).near, {
+            center: { lat: 37.44, lng: -122.16 },
+            radiusMeters: maxQueryRadiusMeters,
+        });
+    });
+
+    test('limits areas to the maximum number of vertices', () => {
+        const polygon = (vertexCount: number) => Array.from({ length: vertexCount }, (_, i) => {
+            const angle = (2 * Math.PI * i) / vertexCount;
+            return `${(37.44 + 0.01 * Math.sin(angle)).toFixed(5)},${(-122.16 + 0.01 * Math.cos(angle)).toFixed(5)}`;
+        }).join(';');
+
+        assert.equal(parseQuery(`area=${polygon(maxAreaVertices)}`).areas?.[0].kind, 'polygon');
+        assertError(`area=${polygon(maxAreaVertices + 1)}`, /"area"/);
+        assertError('area=37.44,-122.16', /"area"/);
+        assertError('area=37.44,-122.16;91,-122.15', /"area"/);
+        assert.deepEqual(parseQuery('area=37.45,-122.15;37.44,-122.16').areas, [
+            { kind: 'rectangle', bounds: { south: 37.44, north: 37.45, west: -122.16, east: -122.15 } },
+        ]);
+    });
+
+    test('accepts hour ranges that wrap past midnight', () => {
+        const query = parseQuery('hours=22-4');
+        assert.equal(query.timeStartHour, 22);
+        assert.equal(query.timeEndHour, 4);
+        assertError('hours=24-4', /"hours"/);
+        assertError('hours=22-0', /"hours"/);
+        assertError('hours=night', /"hours"/);
+    });
+});
+
+describe('filterIncidents', () => {
+    const atMinute = (minute: number) => makeIncident({ case_number: `25-${minute}`, time: minute });
+
+    test('matches wrapped hour ranges on both sides of midnight', () => {
+        const incidents = [atMinute(21 * 60 + 59), atMinute(22 * 60), atMinute(23 * 60 + 30), atMinute(3 * 60 + 59), atMinute(4 * 60), atMinute(0)];
+        const matching = filterIncidents(incidents, parseQuery('hours=22-4'), defaultTaxonomy);
+        // 0 is an unknown time, which is kept unless unknownTime=0
+        assert.deepEqual(matching.map(incident => incident.time), [22 * 60, 23 * 60 + 30, 3 * 60 + 59, 0]);
+        const known = filterIncidents(incidents, parseQuery('hours=22-4&unknownTime=0'), defaultTaxonomy);
+        assert.deepEqual(known.map(incident => incident.time), [22 * 60, 23 * 60 + 30, 3 * 60 + 59]);
+    });
+
+    test('drops imprecise locations by default', () => {
+        const incidents = [makeIncident(), makeIncident({ case_number: '25-2', location_interpretation: 'route' })];
+        assert.deepEqual(filterIncidents(incidents, parseQuery(''), defaultTaxonomy).map(incidentKey), [incidentKey(incidents[0])]);
+        assert.equal(filterIncidents(incidents, parseQuery('imprecise=1'), defaultTaxonomy).length, 2);
+    });
+
+    test('filters by police log date, category and distance', () => {
+        const incidents = [
+            makeIncident(),
+            makeIncident({ case_number: '25-2', offense_category: 'Burglary', police_record_date_str: 'april-04-2025', police_record_date: 'April 4, 2025' }),
+            makeIncident({ case_number: '25-3', latitude: 37.42, longitude: -122.13 }),
+        ];
+        const cases = (query: string) => filterIncidents(incidents, parseQuery(query), defaultTaxonomy).map(incident => incident.case_number);
+        assert.deepEqual(cases('logFrom=2025-04-01'), ['25-2']);
+        assert.deepEqual(cases('cat=Theft'), ['25-01153', '25-3']);
+        assert.deepEqual(cases('near=37.4436,-122.1685&radius=1000'), ['25-01153', '25-2']);
+    });
+});
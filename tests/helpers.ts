@@ -0,0 +1,20 @@
+import { Incident } from '@/lib/incidents';
+
+// A valid Palo Alto incident (a precise address, 12:45, logged the week after) with the given fields replaced
+export const makeIncident = (overrides: Partial<Incident> = {}): Incident => ({
+    case_number: '25-01153',
+    date: '3/21/2025',
+    time: 765,
+    offense_type: 'Petty theft - Shoplifting (M)',
+    offense_category: 'Theft',
+    location: '180 EL CAMINO REAL',
+    latitude: 37.4436,
+    longitude: -122.1685,
+    formatted_address: '180 El Camino Real, Palo Alto, CA 94304, USA',
+    google_maps_uri: 'https://maps.google.com/?cid=1',
+    place_types: 'street_address',
+    location_interpretation: 'street_address_or_premise',
+    police_record_date_str: 'march-28-2025',
+    police_record_date: 'March 28, 2025',
+    ...overrides,
+});
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { computeHotspots, normalizeAddress } from '@/lib/hotspots';
+import { makeIncident } from './helpers';
+
+// A route geocode `metersNorth` north of a point on El Camino Real
+const onRoute = (caseNumber: string, metersNorth: number) => makeIncident({
+    case_number: caseNumber,
+    latitude: 37.4300 + metersNorth / 111320,
+    longitude: -122.1400,
+    formatted_address: 'El Camino Real, Palo Alto, CA, USA',
+    location_interpretation: 'route',
+});
+
+describe('normalizeAddress', () => {
+    test('ignores case, punctuation, units and the country', () => {
+        assert.equal(normalizeAddress('180 El Camino Real #12, Palo Alto, CA 94304, USA'), '180 el camino real palo alto ca 94304');
+        assert.equal(normalizeAddress('180 EL CAMINO REAL Suite 5, Palo Alto, CA 94304'), '180 el camino real palo alto ca 94304');
+    });
+});
+
+describe('computeHotspots', () => {
+    test('groups precise incidents by address and ranks by count', () => {
+        const hotspots = computeHotspots([
+            makeIncident({ case_number: '25-1', date: '3/1/2025' }),
+            makeIncident({ case_number: '25-2', date: '3/20/2025', formatted_address: '180 El Camino Real #12, Palo Alto, CA 94304, USA' }),
+            makeIncident({ case_number: '25-3', date: '3/21/2025' }),
+            makeIncident({ case_number: '25-4', formatted_address: '250 Hamilton Ave, Palo Alto, CA 94301, USA', latitude: 37.4443, longitude: -122.1615 }),
+            makeIncident({ case_number: '25-5', formatted_address: '250 Hamilton Ave, Palo Alto, CA 94301, USA', latitude: 37.4443, longitude: -122.1615 }),
+            makeIncident({ case_number: '25-6', formatted_address: '1 Main St, Palo Alto, CA 94301, USA' }),
+        ]);
+        assert.deepEqual(hotspots.map(hotspot => [hotspot.kind, hotspot.label, hotspot.incidents.length]), [
+            ['address', '180 El Camino Real, Palo Alto, CA 94304', 3],
+            ['address', '250 Hamilton Ave, Palo Alto, CA 94301', 2],
+        ]);
+        // Newest incident first
+        assert.deepEqual(hotspots[0].incidents.map(incident => incident.case_number), ['25-3', '25-2', '25-1']);
+        assert.deepEqual(hotspots[0].categoryCounts, { Theft: 3 });
+    });
+
+    test('clusters route and intersection geocodes by proximity', () => {
+        const hotspots = computeHotspots([onRoute('25-1', 0), onRoute('25-2', 100), onRoute('25-3', 1000)]);
+        assert.equal(hotspots.length, 1);
+        assert.equal(hotspots[0].kind, 'proximity');
+        assert.deepEqual(hotspots[0].incidents.map(incident => incident.case_number).sort(), ['25-1', '25-2']);
+    });
+
+    test('flags a clear rise in the second half of the period', () => {
+        const [hotspot] = computeHotspots([
+            makeIncident({ case_number: '25-1', date: '3/1/2025' }),
+            makeIncident({ case_number: '25-2', date: '3/25/2025' }),
+            makeIncident({ case_number: '25-3', date: '3/27/2025' }),
+            makeIncident({ case_number: '25-4', date: '3/31/2025' }),
+        ]);
+        assert.deepEqual(hotspot.trend, { earlierCount: 1, recentCount: 3, direction: 'up' });
+    });
+});
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { defaultDataSource } from '@/lib/dataSources';
+import { isInBounds, isInPolygon, LatLngLiteral } from '@/lib/geo';
+import { assignRegionId, buildZipRegions, parseZipCode, Region } from '@/lib/regions';
+import { makeIncident } from './helpers';
+
+const { bounds } = defaultDataSource;
+
+// Inside a region's outline: inside an odd number of its rings, since holes are rings inside outer rings
+const isInRegion = (point: LatLngLiteral, region: Region): boolean =>
+    region.paths.filter(path => isInPolygon(point, path)).length % 2 === 1;
+
+const downtown = makeIncident({ case_number: '25-1', latitude: 37.4443, longitude: -122.1615, formatted_address: '250 Hamilton Ave, Palo Alto, CA 94301, USA' });
+const midtown = makeIncident({ case_number: '25-2', latitude: 37.4275, longitude: -122.1295, formatted_address: '2600 Middlefield Rd, Palo Alto, CA 94306, USA' });
+
+describe('parseZipCode and assignRegionId', () => {
+    test('read the ZIP from a formatted address', () => {
+        assert.equal(parseZipCode('250 Hamilton Ave, Palo Alto, CA 94301-2531, USA'), '94301');
+        assert.equal(parseZipCode('Hamilton Ave, Palo Alto, CA, USA'), null);
+        assert.equal(assignRegionId(downtown), 'zip:94301');
+        assert.equal(assignRegionId(makeIncident({ formatted_address: '' })), null);
+    });
+});
+
+describe('buildZipRegions', () => {
+    test('returns nothing without ZIP codes', () => {
+        assert.deepEqual(buildZipRegions([makeIncident({ formatted_address: 'Palo Alto, CA, USA' })], bounds), []);
+    });
+
+    test('outlines each ZIP around its own incidents without overlapping', () => {
+        const outside = makeIncident({ case_number: '25-3', latitude: 37.5, longitude: -122.2, formatted_address: '1 Main St, Redwood City, CA 94063, USA' });
+        const regions = buildZipRegions([downtown, midtown, outside], bounds);
+        assert.deepEqual(regions.map(region => region.id), ['zip:94301', 'zip:94306']);
+
+        for (const incident of [downtown, midtown]) {
+            const point = { lat: incident.latitude, lng: incident.longitude };
+            assert.deepEqual(regions.filter(region => isInRegion(point, region)).map(region => region.id), [assignRegionId(incident)]);
+        }
+        regions.forEach(region => region.paths.flat().forEach(point => assert.ok(isInBounds(point, bounds))));
+    });
+});
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { defaultDataSource } from '@/lib/dataSources';
+import { Incident } from '@/lib/incidents';
+import { validateIncidents } from '@/lib/validation';
+import { makeIncident } from './helpers';
+
+const validate = (data: unknown) => validateIncidents(data, defaultDataSource.bounds);
+
+describe('validateIncidents', () => {
+    test('accepts a clean dataset', () => {
+        const data = [makeIncident(), makeIncident({ case_number: '25-2' })];
+        const { incidents, report } = validate(data);
+        assert.deepEqual(incidents, data);
+        assert.equal(report.errorCount, 0);
+        assert.equal(report.warningCount, 0);
+        assert.equal(report.validRecords, 2);
+    });
+
+    test('reports a non-array file as a dataset-level error', () => {
+        const { incidents, report } = validate({ incidents: [] });
+        assert.deepEqual(incidents, []);
+        assert.deepEqual(report.issues.map(issue => [issue.index, issue.severity, issue.code]), [[-1, 'error', 'not_array']]);
+    });
+
+    test('drops records with errors', () => {
+        const missingLatitude: Partial<Incident> = makeIncident({ case_number: '25-3' });
+        delete missingLatitude.latitude;
+        const { incidents, report } = validate([
+            makeIncident({ case_number: '25-1' }),
+            'not a record',
+            missingLatitude,
+            makeIncident({ case_number: '25-4', time: '12:45' as unknown as number }),
+            makeIncident({ case_number: '25-5', longitude: NaN }),
+            makeIncident({ case_number: '25-1' }), // Same case in the same police log
+        ]);
+        assert.deepEqual(incidents.map(incident => incident.case_number), ['25-1']);
+        assert.deepEqual(report.issues.map(issue => [issue.index, issue.severity, issue.code, issue.field]), [
+            [1, 'error', 'not_object', null],
+            [2, 'error', 'invalid_field', 'latitude'],
+            [3, 'error', 'invalid_field', 'time'],
+            [4, 'error', 'invalid_coordinates', 'latitude'],
+            [5, 'error', 'duplicate_key', 'case_number'],
+        ]);
+        assert.equal(report.errorCount, 5);
+        assert.equal(report.warningCount, 0);
+        assert.equal(report.totalRecords, 6);
+        assert.equal(report.validRecords, 1);
+    });
+
+    test('keeps records with warnings', () => {
+        const data = [
+            makeIncident({ case_number: '25-1', date: '2/30/2025' }),
+            makeIncident({ case_number: '25-2', time: 1440 }),
+            makeIncident({ case_number: '25-3', latitude: 40.7128, longitude: -74.006 }),
+            makeIncident({ case_number: '25-4', police_record_date: 'someday', police_record_date_str: 'someday' }),
+            makeIncident({ case_number: '25-5', police_record_date: 'March 27, 2025' }),
+            makeIncident({ case_number: '25-1', police_record_date_str: 'april-04-2025', police_record_date: 'April 4, 2025' }), // Same case, later log
+        ];
+        const { incidents, report } = validate(data);
+        assert.deepEqual(incidents, data);
+        assert.deepEqual(report.issues.map(issue => [issue.index, issue.severity, issue.code]), [
+            [0, 'warning', 'invalid_date'],
+            [1, 'warning', 'invalid_time'],
+            [2, 'warning', 'outside_area'],
+            [3, 'warning', 'invalid_police_record_date'],
+            [4, 'warning', 'police_record_date_mismatch'],
+        ]);
+        assert.equal(report.errorCount, 0);
+        assert.equal(report.warningCount, 5);
+        assert.deepEqual(report.countsByCode, {
+            invalid_date: 1,
+            invalid_time: 1,
+            outside_area: 1,
+            invalid_police_record_date: 1,
+            police_record_date_mismatch: 1,
+        });
+    });
+});